@@ -0,0 +1,114 @@
+// __tests__/app.lifecycle.test.ts
+import 'reflect-metadata';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+	container,
+	IApp,
+	injectable,
+	MINI_TYPES,
+	OnApplicationShutdown,
+	trackLifecycle,
+} from '../index';
+import { calls } from './fixtures/lifecycle/calls';
+
+const manualCalls: string[] = [];
+
+@injectable()
+class UntrackedCache implements OnApplicationShutdown {
+	onApplicationShutdown() {
+		manualCalls.push('untracked:shutdown');
+	}
+}
+
+@injectable()
+class TrackedCache implements OnApplicationShutdown {
+	onApplicationShutdown() {
+		manualCalls.push('tracked:shutdown');
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+const signalListeners = () =>
+	process.listenerCount('SIGTERM') + process.listenerCount('SIGINT');
+const listenersBeforeInit = signalListeners();
+
+const fetchSlow = (port: number) =>
+	new Promise<{ status: number; body: string }>((resolve, reject) => {
+		http
+			.get(`http://127.0.0.1:${port}/lifecycle/slow`, (res) => {
+				let body = '';
+				res.on('data', (chunk) => (body += chunk));
+				res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+			})
+			.on('error', reject);
+	});
+
+beforeAll(async () => {
+	container.bind(UntrackedCache).toSelf().inSingletonScope();
+	container.bind(TrackedCache).toSelf().inSingletonScope().onActivation(trackLifecycle);
+	container.get(UntrackedCache);
+	container.get(TrackedCache);
+	await appFromContainer.init(
+		{
+			host: 'localhost',
+			port: 0,
+			applicationName: 'Lifecycle Application',
+			shutdownTimeout: 2000,
+		},
+		{
+			autoload: true,
+			workingDirectory: __dirname + '/fixtures/lifecycle',
+			extensions: ['.ts'],
+			patterns: ['**/*.(ts|js)'],
+		}
+	);
+	await appFromContainer.afterInit();
+});
+
+describe('App lifecycle hooks', () => {
+	it('runs init and bootstrap hooks in dependency order', () => {
+		expect(calls).toEqual([
+			'database:init',
+			'repository:init',
+			'controller:init',
+			'database:bootstrap',
+		]);
+	});
+
+	it('handles SIGTERM and SIGINT by default when listening', () => {
+		expect(signalListeners()).toBe(listenersBeforeInit + 2);
+	});
+
+	it('drains in-flight requests and runs shutdown hooks in reverse order', async () => {
+		const { port } = appFromContainer.server.address() as AddressInfo;
+		const pending = fetchSlow(port);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		await appFromContainer.close('SIGTERM');
+		const response = await pending;
+
+		expect(response.status).toBe(200);
+		expect(appFromContainer.isShuttingDown).toBe(true);
+		expect(appFromContainer.server.listening).toBe(false);
+		expect(calls.slice(4)).toEqual([
+			'request:finished',
+			'controller:shutdown:SIGTERM',
+			'repository:shutdown:SIGTERM',
+			'database:shutdown:SIGTERM',
+		]);
+	});
+
+	it('closes only once', async () => {
+		await appFromContainer.close();
+		expect(calls.filter((c) => c.startsWith('database:shutdown'))).toHaveLength(1);
+	});
+
+	it('runs hooks of hand-bound singletons only when they opt in', () => {
+		expect(manualCalls).toEqual(['tracked:shutdown']);
+	});
+
+	it('removes its signal handlers on close', () => {
+		expect(signalListeners()).toBe(listenersBeforeInit);
+	});
+});
@@ -0,0 +1,90 @@
+// __tests__/app.middlewares.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import {
+	body,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	MINI_TYPES,
+	post,
+} from '../index';
+
+@controller('/pipeline')
+class PipelineController extends Controller {
+	@get('/')
+	root() {
+		return { ok: true };
+	}
+
+	@post('/echo')
+	echo(@body() payload: unknown) {
+		return { payload };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(PipelineController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Pipeline Application',
+		json: { limit: '20b' },
+		cors: { origin: 'https://example.com', credentials: true },
+		logger: false,
+		beforeRoutes: [
+			(_req, res, next) => {
+				res.setHeader('x-before', 'yes');
+				next();
+			},
+		],
+		afterRoutes: [
+			(_req, res) => {
+				res.status(404).json({ message: 'Route not found' });
+			},
+		],
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('Global middleware pipeline', () => {
+	it('applies cors options', async () => {
+		const res_ = await request(app)
+			.get('/pipeline')
+			.set('Origin', 'https://example.com');
+		expect(res_.status).toBe(200);
+		expect(res_.headers['access-control-allow-origin']).toBe(
+			'https://example.com'
+		);
+		expect(res_.headers['access-control-allow-credentials']).toBe('true');
+	});
+
+	it('runs beforeRoutes middlewares ahead of controllers', async () => {
+		const res_ = await request(app).get('/pipeline');
+		expect(res_.headers['x-before']).toBe('yes');
+	});
+
+	it('runs afterRoutes middlewares for unmatched requests', async () => {
+		const res_ = await request(app).get('/missing');
+		expect(res_.status).toBe(404);
+		expect(res_.body).toEqual({ message: 'Route not found' });
+	});
+
+	it('honours the json body limit', async () => {
+		const small = await request(app).post('/pipeline/echo').send({ a: 1 });
+		expect(small.status).toBe(200);
+		expect(small.body).toEqual({ payload: { a: 1 } });
+
+		const large = await request(app)
+			.post('/pipeline/echo')
+			.send({ text: 'x'.repeat(100) });
+		expect(large.status).not.toBe(200);
+	});
+});
@@ -10,7 +10,7 @@ const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
 let app!: Express;
 beforeAll(async () => {
 	container.bind(MINI_TYPES.IController).to(TestController);
-	await appFromContainer.init(
+	app = await appFromContainer.build(
 		{
 			host: 'localhost',
 			port: 3000,
@@ -32,19 +32,16 @@ beforeAll(async () => {
 			logging: true,
 		}
 	);
-	await appFromContainer.afterInit();
-	app = appFromContainer.getApp();
 });
 afterAll(async () => {
-	return new Promise((resolve) => {
-		appFromContainer.server.close(() => {
-			console.log('server closed');
-			resolve(true);
-		});
-	});
+	await appFromContainer.close();
 });
 /* --------------------------------- Tests ---------------------------------- */
 describe('Test controller (integration)', () => {
+	it('build() does not bind a port', () => {
+		expect(appFromContainer.server).toBeUndefined();
+	});
+
 	it('GET /test -> 200', async () => {
 		const res_ = await request(app).get('/test');
 		expect(res_.status).toBe(200);
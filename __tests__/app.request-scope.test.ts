@@ -0,0 +1,89 @@
+// __tests__/app.request-scope.test.ts
+import 'reflect-metadata';
+import { Express, Request } from 'express';
+import request from 'supertest';
+import {
+	autoBind,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	inject,
+	MINI_TYPES,
+	preDestroy,
+	scoped,
+} from '../index';
+
+const REQUEST_CONTEXT = Symbol.for('TestRequestContext');
+let created = 0;
+const disposed: number[] = [];
+
+@autoBind(REQUEST_CONTEXT, { scope: 'Request' })
+class RequestContext {
+	id = ++created;
+	tenant: string;
+	constructor(@inject(MINI_TYPES.HttpRequest) req: Request) {
+		this.tenant = String(req.headers['x-tenant'] ?? 'default');
+	}
+	@preDestroy()
+	dispose() {
+		disposed.push(this.id);
+	}
+}
+
+class Clock {
+	startedAt = Date.now();
+}
+
+@controller('/scoped')
+class ScopedController extends Controller {
+	@get('/')
+	handle(
+		@scoped(REQUEST_CONTEXT) first: RequestContext,
+		@scoped(REQUEST_CONTEXT) second: RequestContext
+	) {
+		return { id: first.id, tenant: first.tenant, same: first === second };
+	}
+
+	@get('/singleton')
+	singleton(@scoped(Clock) clock: Clock) {
+		return { same: clock === container.get(Clock) };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(ScopedController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Request Scope Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('Per-request DI scope', () => {
+	it('shares one instance within a request and creates a new one per request', async () => {
+		const first = await request(app).get('/scoped').set('x-tenant', 'acme');
+		const second = await request(app).get('/scoped').set('x-tenant', 'globex');
+
+		expect(first.body).toEqual({ id: 1, tenant: 'acme', same: true });
+		expect(second.body).toEqual({ id: 2, tenant: 'globex', same: true });
+	});
+
+	it('disposes request scoped services when the response finishes', async () => {
+		await request(app).get('/scoped');
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(disposed).toEqual([1, 2, 3]);
+	});
+
+	it('falls back to the root container for non request scoped services', async () => {
+		const res_ = await request(app).get('/scoped/singleton');
+		expect(res_.body).toEqual({ same: true });
+	});
+});
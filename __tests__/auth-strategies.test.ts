@@ -0,0 +1,236 @@
+// __tests__/auth-strategies.test.ts
+import 'reflect-metadata';
+import { generateKeyPairSync } from 'node:crypto';
+import express, { Express, Request } from 'express';
+import request from 'supertest';
+import {
+	ApiKeyStrategy,
+	authenticated,
+	BasicStrategy,
+	buildApp,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	IAuthStrategy,
+	JwtStrategy,
+	MINI_TYPES,
+	req,
+	signJwt,
+} from '../index';
+
+const secret = 'test-secret';
+const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+	modulusLength: 2048,
+});
+
+@controller('/auth')
+class AuthController extends Controller {
+	@get('/jwt')
+	@authenticated('jwt')
+	jwt(@req() request_: Request) {
+		return { user: request_.user, strategy: request_.authStrategy };
+	}
+
+	@get('/rs')
+	@authenticated('jwt-rs')
+	rs(@req() request_: Request) {
+		return { user: request_.user };
+	}
+
+	@get('/machine')
+	@authenticated(['apiKey', 'basic'])
+	machine(@req() request_: Request) {
+		return { user: request_.user, strategy: request_.authStrategy };
+	}
+
+	@get('/gateway')
+	@authenticated()
+	gateway(@req() request_: Request) {
+		return { user: request_.user, strategy: request_.authStrategy };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container
+		.bind<IAuthStrategy>(MINI_TYPES.IAuthStrategy)
+		.toConstantValue(new JwtStrategy({ secret, issuer: 'mini2' }));
+	container
+		.bind<IAuthStrategy>(MINI_TYPES.IAuthStrategy)
+		.toConstantValue(new JwtStrategy({ name: 'jwt-rs', publicKey }));
+	container.bind<IAuthStrategy>(MINI_TYPES.IAuthStrategy).toConstantValue(
+		new ApiKeyStrategy({
+			validate: (key) =>
+				key === 'key-123' ? { id: 'service', permissions: ['sync'] } : null,
+		})
+	);
+	container.bind<IAuthStrategy>(MINI_TYPES.IAuthStrategy).toConstantValue(
+		new BasicStrategy({
+			realm: 'machines',
+			validate: (username, password) =>
+				username === 'robot' && password === 's3cret'
+					? { id: username, permissions: [] }
+					: null,
+		})
+	);
+	container.bind(MINI_TYPES.IController).to(AuthController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Auth Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('Authentication strategies', () => {
+	it('accepts a valid HS256 bearer token and populates req.user', async () => {
+		const token = signJwt(
+			{ sub: 'u1', iss: 'mini2', permissions: ['orders:read'], roles: ['admin'] },
+			{ algorithm: 'HS256', key: secret, expiresIn: 60 }
+		);
+		const res_ = await request(app)
+			.get('/auth/jwt')
+			.set('Authorization', `Bearer ${token}`);
+		expect(res_.status).toBe(200);
+		expect(res_.body.strategy).toBe('jwt');
+		expect(res_.body.user).toEqual(
+			expect.objectContaining({
+				id: 'u1',
+				permissions: ['orders:read'],
+				roles: ['admin'],
+			})
+		);
+	});
+
+	it('rejects missing, tampered, expired or foreign tokens', async () => {
+		const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+		const missing = await request(app).get('/auth/jwt');
+		expect(missing.status).toBe(401);
+		expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+		const wrongSecret = signJwt(
+			{ sub: 'u1', iss: 'mini2' },
+			{ algorithm: 'HS256', key: 'other' }
+		);
+		const tampered = await request(app)
+			.get('/auth/jwt')
+			.set('Authorization', `Bearer ${wrongSecret}`);
+		expect(tampered.status).toBe(401);
+		expect(tampered.body.message).toBe('Invalid token');
+		expect(warn).toHaveBeenLastCalledWith('JWT rejected by "jwt":', 'Invalid signature');
+
+		const expiredToken = signJwt(
+			{ sub: 'u1', iss: 'mini2' },
+			{ algorithm: 'HS256', key: secret, expiresIn: -10 }
+		);
+		const expired = await request(app)
+			.get('/auth/jwt')
+			.set('Authorization', `Bearer ${expiredToken}`);
+		expect(expired.body.message).toBe('Invalid token');
+		expect(warn).toHaveBeenLastCalledWith('JWT rejected by "jwt":', 'Token expired');
+
+		const otherIssuer = signJwt(
+			{ sub: 'u1', iss: 'someone-else' },
+			{ algorithm: 'HS256', key: secret }
+		);
+		const issuer = await request(app)
+			.get('/auth/jwt')
+			.set('Authorization', `Bearer ${otherIssuer}`);
+		expect(issuer.body.message).toBe('Invalid token');
+
+		// Header segmenti JSON null: TypeError yerine 401
+		const nullHeader = `${Buffer.from('null').toString('base64url')}.e30.sig`;
+		const malformed = await request(app)
+			.get('/auth/jwt')
+			.set('Authorization', `Bearer ${nullHeader}`);
+		expect(malformed.status).toBe(401);
+		expect(malformed.body.message).toBe('Invalid token');
+		expect(warn).toHaveBeenLastCalledWith('JWT rejected by "jwt":', 'Malformed token');
+		warn.mockRestore();
+	});
+
+	it('verifies RS256 tokens with a local public key', async () => {
+		const token = signJwt({ sub: 'u2' }, { algorithm: 'RS256', key: privateKey });
+		const ok = await request(app)
+			.get('/auth/rs')
+			.set('Authorization', `Bearer ${token}`);
+		expect(ok.status).toBe(200);
+		expect(ok.body.user.id).toBe('u2');
+
+		const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+		const hsToken = signJwt({ sub: 'u2' }, { algorithm: 'HS256', key: secret });
+		const rejected = await request(app)
+			.get('/auth/rs')
+			.set('Authorization', `Bearer ${hsToken}`);
+		expect(rejected.status).toBe(401);
+		expect(rejected.body.message).toBe('Invalid token');
+		warn.mockRestore();
+	});
+
+	it('tries several strategies in order', async () => {
+		const apiKey = await request(app).get('/auth/machine').set('x-api-key', 'key-123');
+		expect(apiKey.body.strategy).toBe('apiKey');
+
+		const basic = await request(app).get('/auth/machine').auth('robot', 's3cret');
+		expect(basic.body.strategy).toBe('basic');
+
+		const invalid = await request(app).get('/auth/machine').auth('robot', 'nope');
+		expect(invalid.status).toBe(401);
+		expect(invalid.headers['www-authenticate']).toBe('Basic realm="machines"');
+	});
+
+	it('keeps the header based gateway strategy as default', async () => {
+		const res_ = await request(app)
+			.get('/auth/gateway')
+			.set('x-authenticated', 'true')
+			.set('x-user-id', 'u3');
+		expect(res_.body.strategy).toBe('gateway');
+		expect(res_.body.user.id).toBe('u3');
+	});
+
+	it('documents the matching security schemes', async () => {
+		const res_ = await request(app).get('/api-docs.json');
+		const { paths, components } = res_.body;
+		expect(components.securitySchemes).toEqual(
+			expect.objectContaining({
+				jwt: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+				apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+				basic: { type: 'http', scheme: 'basic' },
+				gateway: expect.objectContaining({
+					type: 'apiKey',
+					in: 'header',
+					name: 'x-authenticated',
+				}),
+			})
+		);
+		expect(paths['/auth/jwt'].get.security).toEqual([{ jwt: [] }]);
+		expect(paths['/auth/machine'].get.security).toEqual([
+			{ apiKey: [] },
+			{ basic: [] },
+		]);
+		expect(paths['/auth/gateway'].get.security).toEqual([{ gateway: [] }]);
+	});
+
+	it('fails at startup for unknown strategy names', () => {
+		@controller('/typo')
+		class TypoController extends Controller {
+			@get('/')
+			@authenticated('jwtt')
+			list() {
+				return [];
+			}
+		}
+		expect(() => buildApp(express(), [new TypoController()])).toThrow(
+			'Auth strategy "jwtt" is not registered'
+		);
+		expect(() =>
+			buildApp(express(), [new AuthController()], { defaultAuthStrategy: 'nope' })
+		).toThrow('Auth strategy "nope" is not registered');
+	});
+});
@@ -0,0 +1,149 @@
+// __tests__/authorization.test.ts
+import 'reflect-metadata';
+import { Express, Request } from 'express';
+import request from 'supertest';
+import {
+	authenticated,
+	authorized,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	IAuthStrategy,
+	IPermissionProvider,
+	matchesPermission,
+	MINI_TYPES,
+	RoleHierarchyPermissionProvider,
+} from '../index';
+
+class TestUserStrategy implements IAuthStrategy {
+	name = 'test-user';
+	securityScheme = { type: 'apiKey', in: 'header', name: 'x-test-user' };
+	authenticate(req: Request) {
+		const raw = req.headers['x-test-user'];
+		return typeof raw === 'string' ? JSON.parse(raw) : null;
+	}
+}
+
+@controller('/orders')
+@authenticated('test-user')
+class OrdersController extends Controller {
+	@get('/any')
+	@authorized(['orders:read', 'orders:export'])
+	any() {
+		return { ok: true };
+	}
+
+	@get('/all')
+	@authorized(['orders:read', 'orders:export'], 'all')
+	all() {
+		return { ok: true };
+	}
+
+	@get('/users')
+	@authorized('users:delete')
+	users() {
+		return { ok: true };
+	}
+
+	@get('/legacy')
+	@authenticated(false)
+	@authorized('orders:read')
+	legacy() {
+		return { ok: true };
+	}
+}
+
+const asUser = (user: object) => JSON.stringify({ permissions: [], ...user });
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container
+		.bind<IAuthStrategy>(MINI_TYPES.IAuthStrategy)
+		.toConstantValue(new TestUserStrategy());
+	container.bind<IPermissionProvider>(MINI_TYPES.IPermissionProvider).toConstantValue(
+		new RoleHierarchyPermissionProvider({
+			admin: { inherits: ['editor'], permissions: ['users:*'] },
+			editor: { permissions: ['orders:*'] },
+		})
+	);
+	container.bind(MINI_TYPES.IController).to(OrdersController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Authorization Application',
+		logger: false,
+		authorizationHeaderFallback: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('matchesPermission', () => {
+	it('supports exact and wildcard permissions', () => {
+		expect(matchesPermission('orders:read', 'orders:read')).toBe(true);
+		expect(matchesPermission('orders:*', 'orders:read')).toBe(true);
+		expect(matchesPermission('orders:*', 'orders:items:read')).toBe(true);
+		expect(matchesPermission('orders:*', 'orders')).toBe(false);
+		expect(matchesPermission('*:read', 'users:read')).toBe(true);
+		expect(matchesPermission('*:read', 'users:write')).toBe(false);
+		expect(matchesPermission('*', 'anything:at:all')).toBe(true);
+		expect(matchesPermission('orders:read', 'orders:write')).toBe(false);
+	});
+});
+
+describe('Authorization', () => {
+	it('passes any-of routes with one matching permission', async () => {
+		const res_ = await request(app)
+			.get('/orders/any')
+			.set('x-test-user', asUser({ permissions: ['orders:read'] }));
+		expect(res_.status).toBe(200);
+	});
+
+	it('requires every permission on all-of routes', async () => {
+		const partial = await request(app)
+			.get('/orders/all')
+			.set('x-test-user', asUser({ permissions: ['orders:read'] }));
+		expect(partial.status).toBe(403);
+
+		const full = await request(app)
+			.get('/orders/all')
+			.set('x-test-user', asUser({ permissions: ['orders:*'] }));
+		expect(full.status).toBe(200);
+	});
+
+	it('resolves permissions from the role hierarchy provider', async () => {
+		const editor = await request(app)
+			.get('/orders/all')
+			.set('x-test-user', asUser({ roles: ['editor'] }));
+		expect(editor.status).toBe(200);
+
+		const editorOnUsers = await request(app)
+			.get('/orders/users')
+			.set('x-test-user', asUser({ roles: ['editor'] }));
+		expect(editorOnUsers.status).toBe(403);
+
+		const admin = await request(app)
+			.get('/orders/users')
+			.set('x-test-user', asUser({ roles: ['admin'] }));
+		expect(admin.status).toBe(200);
+	});
+
+	it('ignores the permissions header when req.user is set', async () => {
+		const res_ = await request(app)
+			.get('/orders/any')
+			.set('x-test-user', asUser({}))
+			.set('x-user-permissions', 'orders:read');
+		expect(res_.status).toBe(403);
+	});
+
+	it('can disable the header fallback completely', async () => {
+		const res_ = await request(app)
+			.get('/orders/legacy')
+			.set('x-user-permissions', 'orders:read');
+		expect(res_.status).toBe(403);
+	});
+});
@@ -0,0 +1,118 @@
+// __tests__/controller-decorators.test.ts
+import 'reflect-metadata';
+import { Express, Request } from 'express';
+import request from 'supertest';
+import {
+	authenticated,
+	authorized,
+	container,
+	controller,
+	Controller,
+	custom,
+	get,
+	IApp,
+	MINI_TYPES,
+	middleware,
+	req,
+} from '../index';
+
+@controller('/orders')
+@authenticated()
+@authorized('orders:read')
+@middleware((_req, res, next) => {
+	res.setHeader('x-controller-mw', 'yes');
+	next();
+})
+@custom('owner', 'billing')
+class OrdersController extends Controller {
+	@get('/')
+	list() {
+		return { ok: true };
+	}
+
+	@get('/admin')
+	@authorized('orders:admin')
+	admin() {
+		return { ok: true };
+	}
+
+	@get('/public')
+	@authenticated(false)
+	publicInfo(@req() request_: Request) {
+		return { user: (request_ as any).user ?? null };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(OrdersController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Controller Decorators Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('Controller-level decorators', () => {
+	it('protects every route of the controller', async () => {
+		const anonymous = await request(app).get('/orders');
+		expect(anonymous.status).toBe(401);
+
+		const reader = await request(app)
+			.get('/orders')
+			.set('x-authenticated', 'true')
+			.set('x-user-permissions', 'orders:read');
+		expect(reader.status).toBe(200);
+		expect(reader.headers['x-controller-mw']).toBe('yes');
+	});
+
+	it('lets method permissions override controller permissions', async () => {
+		const reader = await request(app)
+			.get('/orders/admin')
+			.set('x-authenticated', 'true')
+			.set('x-user-permissions', 'orders:read');
+		expect(reader.status).toBe(403);
+
+		const admin = await request(app)
+			.get('/orders/admin')
+			.set('x-authenticated', 'true')
+			.set('x-user-permissions', 'orders:admin');
+		expect(admin.status).toBe(200);
+	});
+
+	it('opens a route with @authenticated(false)', async () => {
+		const res_ = await request(app).get('/orders/public');
+		expect(res_.status).toBe(200);
+		expect(res_.headers['x-controller-mw']).toBe('yes');
+	});
+
+	it('merges controller options into route definitions', () => {
+		const instance = appFromContainer.controllers[0];
+		const list = instance.getRouteDefinition('list');
+		expect(list.authenticated).toBe(true);
+		expect(list.permissions).toEqual(['orders:read']);
+		expect(list.extraData?.get('owner')).toBe('billing');
+		expect(instance.getRouteDefinition('publicInfo').authenticated).toBe(false);
+	});
+
+	it('documents controller security in the OpenAPI spec', async () => {
+		const res_ = await request(app).get('/api-docs.json');
+		const paths = res_.body.paths;
+		expect(paths['/orders/'].get.security).toEqual([{ gateway: [] }]);
+		expect(paths['/orders/'].get.responses['403']).toBeDefined();
+		expect(paths['/orders/public'].get.security).toBeUndefined();
+	});
+
+	it('documents controller security in the Postman collection', async () => {
+		const res_ = await request(app).get('/postman.json');
+		const items = res_.body.item[0].item;
+		const list = items.find((item: any) => item.request.url.raw.endsWith('/orders/'));
+		const codes = list.response.map((r: any) => r.code);
+		expect(codes).toEqual(expect.arrayContaining([401, 403]));
+	});
+});
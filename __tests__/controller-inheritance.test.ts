@@ -0,0 +1,172 @@
+// __tests__/controller-inheritance.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import { IsString } from 'class-validator';
+import {
+	authenticated,
+	authorized,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	MINI_TYPES,
+	params,
+	post,
+	RouteRegistry,
+	validate,
+} from '../index';
+
+class ImportDto {
+	@IsString()
+	source!: string;
+}
+
+abstract class CrudController extends Controller {
+	abstract resource: string;
+
+	@get('/', 'List')
+	list() {
+		return { resource: this.resource, action: 'list' };
+	}
+
+	@get('/:id', 'Find one')
+	findOne(@params() params_: { id: string }) {
+		return { resource: this.resource, action: 'findOne', id: params_.id };
+	}
+
+	@post('/', 'Create')
+	@authenticated()
+	create() {
+		return { resource: this.resource, action: 'create' };
+	}
+
+	@get('/stats/summary', 'Stats')
+	@authenticated()
+	@authorized('catalog.admin')
+	stats() {
+		return { resource: this.resource, action: 'stats' };
+	}
+
+	@post('/import', 'Import')
+	@validate({ body: ImportDto })
+	import() {
+		return { resource: this.resource, action: 'import' };
+	}
+}
+
+@controller('/products')
+class ProductsController extends CrudController {
+	resource = 'products';
+
+	@get('/featured', 'Featured')
+	featured() {
+		return { resource: this.resource, action: 'featured' };
+	}
+
+	override findOne(params_: { id: string }) {
+		return { resource: this.resource, action: 'findOne', id: `product-${params_.id}` };
+	}
+
+	// Açıkça boş listeler base'deki izin ve validation'ları temizler
+	@authenticated(false)
+	@authorized([])
+	override stats() {
+		return super.stats();
+	}
+
+	@validate([])
+	override import() {
+		return super.import();
+	}
+}
+
+@controller('/users')
+class UsersController extends CrudController {
+	resource = 'users';
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(ProductsController);
+	container.bind(MINI_TYPES.IController).to(UsersController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Inheritance Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('Route inheritance', () => {
+	it('registers routes declared on the base controller', async () => {
+		const res_ = await request(app).get('/users');
+		expect(res_.status).toBe(200);
+		expect(res_.body).toEqual({ resource: 'users', action: 'list' });
+
+		const created = await request(app).post('/users');
+		expect(created.status).toBe(401);
+	});
+
+	it('uses subclass overrides with the inherited route metadata', async () => {
+		const res_ = await request(app).get('/products/42');
+		expect(res_.body).toEqual({
+			resource: 'products',
+			action: 'findOne',
+			id: 'product-42',
+		});
+	});
+
+	it('registers subclass routes before inherited ones', async () => {
+		const res_ = await request(app).get('/products/featured');
+		expect(res_.body).toEqual({ resource: 'products', action: 'featured' });
+	});
+
+	it('lets subclasses clear inherited permissions and validations', async () => {
+		expect((await request(app).get('/users/stats/summary')).status).toBe(401);
+		const stats = await request(app).get('/products/stats/summary');
+		expect(stats.status).toBe(200);
+		expect(stats.body).toEqual({ resource: 'products', action: 'stats' });
+
+		expect((await request(app).post('/users/import').send({})).status).toBe(400);
+		expect((await request(app).post('/products/import').send({})).status).toBe(200);
+
+		const productStats = RouteRegistry.getRoutes(ProductsController).find(
+			(route) => route.methodName === 'stats'
+		);
+		expect(productStats?.permissions).toEqual([]);
+		const userStats = RouteRegistry.getRoutes(UsersController).find(
+			(route) => route.methodName === 'stats'
+		);
+		expect(userStats?.permissions).toEqual(['catalog.admin']);
+	});
+
+	it('keeps route definitions per class', () => {
+		const productRoutes = RouteRegistry.getRoutes(ProductsController).map(
+			(r) => r.methodName
+		);
+		const userRoutes = RouteRegistry.getRoutes(UsersController).map(
+			(r) => r.methodName
+		);
+		expect(productRoutes).toEqual(
+			expect.arrayContaining(['list', 'findOne', 'create', 'featured'])
+		);
+		expect(userRoutes).not.toContain('featured');
+		expect(RouteRegistry.getBasePathOf(UsersController)).toBe('/users');
+		expect(RouteRegistry.getBasePathOf(ProductsController)).toBe('/products');
+	});
+
+	it('documents inherited routes in the OpenAPI spec', async () => {
+		const res_ = await request(app).get('/api-docs.json');
+		const paths = res_.body.paths;
+		expect(paths['/users/'].get).toBeDefined();
+		expect(paths['/users/{id}'].get).toBeDefined();
+		expect(paths['/products/featured'].get).toBeDefined();
+		expect(paths['/products/'].post.security).toEqual([{ gateway: [] }]);
+	});
+});
@@ -0,0 +1,122 @@
+// __tests__/error-catalog.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import {
+	App,
+	container,
+	controller,
+	Controller,
+	defineError,
+	ErrorCatalog,
+	get,
+	IApp,
+	MINI_TYPES,
+	NotFoundException,
+	params,
+	throws,
+} from '../index';
+
+const UserErrors = {
+	NotFound: defineError({
+		id: 1001,
+		status: 404,
+		message: 'User {id} not found',
+		localizationKey: 'errors.user.notFound',
+	}),
+	Banned: defineError({ id: 1002, status: 403, message: 'User is banned' }),
+	Teapot: defineError({ id: 1003, status: 418, message: 'I am a teapot' }),
+};
+
+@controller('/users')
+@throws(UserErrors.Banned)
+class UsersController extends Controller {
+	@get('/:id')
+	@throws(UserErrors.NotFound)
+	getUser(@params() params: { id: string }) {
+		throw UserErrors.NotFound.create({ id: params.id });
+	}
+
+	@get('/crash/now')
+	crash() {
+		throw new Error('boom');
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(UsersController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Catalog Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('Error catalog', () => {
+	it('creates the matching HttpException subclass with a rendered message', () => {
+		const error = UserErrors.NotFound.create({ id: 7 });
+		expect(error).toBeInstanceOf(NotFoundException);
+		expect(error.code).toBe(404);
+		expect(error.messageJson).toEqual({
+			errorId: 1001,
+			message: 'User 7 not found',
+			localizationKey: 'errors.user.notFound',
+			params: { id: 7 },
+		});
+
+		const teapot = UserErrors.Teapot.create();
+		expect(teapot.code).toBe(418);
+		expect(teapot.messageJson).toEqual({ errorId: 1003, message: 'I am a teapot' });
+	});
+
+	it('returns catalog errors from handlers', async () => {
+		const res_ = await request(app).get('/users/42');
+		expect(res_.status).toBe(404);
+		expect(res_.body).toMatchObject({ errorId: 1001, message: 'User 42 not found' });
+	});
+
+	it('uses the core catalog entry for unknown errors', async () => {
+		const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+		const res_ = await request(app).get('/users/crash/now');
+		spy.mockRestore();
+		expect(res_.status).toBe(500);
+		expect(res_.body).toEqual({ errorId: 1, message: 'Some error happen' });
+	});
+
+	it('documents possible errors per operation in OpenAPI', async () => {
+		const res_ = await request(app).get('/api-docs.json');
+		const operation = res_.body.paths['/users/{id}'].get;
+		expect(operation['x-errors']).toEqual([
+			{ errorId: 1002, status: 403, message: 'User is banned' },
+			{
+				errorId: 1001,
+				status: 404,
+				message: 'User {id} not found',
+				localizationKey: 'errors.user.notFound',
+			},
+		]);
+		expect(
+			operation.responses['404'].content['application/json'].examples.error_1001.value
+		).toEqual({ errorId: 1001, message: 'User {id} not found' });
+		expect(operation.responses['403']).toBeDefined();
+	});
+
+	it('rejects duplicate ids at startup', async () => {
+		defineError({ id: 1001, status: 400, message: 'Another error' });
+		expect(() => ErrorCatalog.validate()).toThrow(/Duplicate error ids in catalog: 1001/);
+		await expect(
+			new App().init({
+				host: 'localhost',
+				port: 3000,
+				applicationName: 'Duplicate',
+				listen: false,
+			})
+		).rejects.toThrow(/1001/);
+	});
+});
@@ -0,0 +1,143 @@
+// __tests__/exception-filters.test.ts
+import 'reflect-metadata';
+import { Express, Request, Response } from 'express';
+import request from 'supertest';
+import {
+	BadRequestException,
+	catchError,
+	ConflictException,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	IExceptionFilter,
+	injectable,
+	MINI_TYPES,
+	NotFoundException,
+	post,
+	useFilters,
+} from '../index';
+
+class EntityNotFoundError extends Error {
+	constructor(public entity: string) {
+		super(`${entity} not found`);
+	}
+}
+class DuplicateKeyError extends Error {}
+class RateLimitedError extends Error {}
+
+@injectable()
+@catchError(EntityNotFoundError)
+class EntityNotFoundFilter implements IExceptionFilter<EntityNotFoundError> {
+	catch(error: EntityNotFoundError) {
+		return new NotFoundException({ message: error.message });
+	}
+}
+
+@injectable()
+@catchError(DuplicateKeyError)
+class DuplicateKeyFilter implements IExceptionFilter {
+	catch() {
+		return new ConflictException({ message: 'Already exists' });
+	}
+}
+
+@injectable()
+@catchError(RateLimitedError)
+class RateLimitedFilter implements IExceptionFilter {
+	catch(_error: RateLimitedError, _req: Request, res: Response) {
+		res.status(429).set('Retry-After', '10').json({ retry: true });
+	}
+}
+
+@injectable()
+@catchError(SyntaxError)
+class JsonSyntaxFilter implements IExceptionFilter {
+	catch() {
+		return new BadRequestException({ message: 'Malformed JSON body' });
+	}
+}
+
+@controller('/items')
+@useFilters(DuplicateKeyFilter)
+class ItemsController extends Controller {
+	@get('/missing')
+	@useFilters(EntityNotFoundFilter)
+	missing() {
+		throw new EntityNotFoundError('Item');
+	}
+
+	@get('/unfiltered')
+	unfiltered() {
+		throw new EntityNotFoundError('Item');
+	}
+
+	@post('/')
+	create() {
+		throw new DuplicateKeyError();
+	}
+
+	@get('/limited')
+	limited() {
+		throw new RateLimitedError();
+	}
+
+	@post('/echo')
+	echo() {
+		return { ok: true };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(ItemsController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Filter Application',
+		logger: false,
+		exceptionFilters: [JsonSyntaxFilter, RateLimitedFilter],
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('Exception filters', () => {
+	it('maps domain errors with a route filter', async () => {
+		const res_ = await request(app).get('/items/missing');
+		expect(res_.status).toBe(404);
+		expect(res_.body).toEqual({ message: 'Item not found' });
+	});
+
+	it('applies controller filters to every route', async () => {
+		const res_ = await request(app).post('/items').send({});
+		expect(res_.status).toBe(409);
+		expect(res_.body).toEqual({ message: 'Already exists' });
+	});
+
+	it('maps JSON SyntaxError with a global filter', async () => {
+		const res_ = await request(app)
+			.post('/items/echo')
+			.set('Content-Type', 'application/json')
+			.send('{"broken":');
+		expect(res_.status).toBe(400);
+		expect(res_.body).toEqual({ message: 'Malformed JSON body' });
+	});
+
+	it('lets a filter write the response itself', async () => {
+		const res_ = await request(app).get('/items/limited');
+		expect(res_.status).toBe(429);
+		expect(res_.headers['retry-after']).toBe('10');
+		expect(res_.body).toEqual({ retry: true });
+	});
+
+	it('falls back to 500 when no filter matches', async () => {
+		const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+		const res_ = await request(app).get('/items/unfiltered');
+		spy.mockRestore();
+		expect(res_.status).toBe(500);
+	});
+});
@@ -0,0 +1,159 @@
+// __tests__/file-response.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import {
+	contentDisposition,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	MINI_TYPES,
+	ResponseBuilder,
+} from '../index';
+
+const dir = mkdtempSync(join(tmpdir(), 'mini-files-'));
+const exportPath = join(dir, 'export.txt');
+const exportContent = Array.from({ length: 100 }, (_, i) => String(i % 10)).join('');
+writeFileSync(exportPath, exportContent);
+
+let lastStream: Readable | undefined;
+
+@controller('/files')
+class FilesController extends Controller {
+	@get('/buffer')
+	buffer() {
+		return new ResponseBuilder().file(Buffer.from('a,b\n1,2\n'), {
+			filename: 'rapor ü.csv',
+		});
+	}
+
+	@get('/path')
+	fromDisk() {
+		return new ResponseBuilder().file(exportPath);
+	}
+
+	@get('/missing')
+	missing() {
+		return new ResponseBuilder().file(join(dir, 'nope.txt'));
+	}
+
+	@get('/stream')
+	stream() {
+		return new ResponseBuilder().file(Readable.from(['{"a":', '1}']), {
+			contentType: 'application/json',
+			disposition: 'inline',
+		});
+	}
+
+	@get('/tracked')
+	tracked() {
+		lastStream = Readable.from(['data']);
+		return new ResponseBuilder().file(lastStream, { contentLength: 4 });
+	}
+
+	@get('/broken')
+	broken() {
+		const stream = new Readable({
+			read() {
+				this.destroy(new Error('disk failure'));
+			},
+		});
+		return new ResponseBuilder().file(stream);
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(FilesController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'File Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+	rmSync(dir, { recursive: true, force: true });
+});
+
+describe('contentDisposition', () => {
+	it('adds an RFC 5987 filename for non-ASCII names', () => {
+		expect(contentDisposition('inline')).toBe('inline');
+		expect(contentDisposition('attachment', 'report.pdf')).toBe(
+			'attachment; filename="report.pdf"'
+		);
+		expect(contentDisposition('attachment', 'rapor ü.csv')).toBe(
+			`attachment; filename="rapor _.csv"; filename*=UTF-8''rapor%20%C3%BC.csv`
+		);
+	});
+});
+
+describe('ResponseBuilder.file', () => {
+	it('sends buffers with type, length and disposition', async () => {
+		const res_ = await request(app).get('/files/buffer');
+		expect(res_.status).toBe(200);
+		expect(res_.headers['content-type']).toMatch(/^text\/csv/);
+		expect(res_.headers['content-length']).toBe('8');
+		expect(res_.headers['content-disposition']).toContain("filename*=UTF-8''rapor%20%C3%BC.csv");
+		expect(res_.text).toBe('a,b\n1,2\n');
+	});
+
+	it('streams files from disk', async () => {
+		const res_ = await request(app).get('/files/path');
+		expect(res_.status).toBe(200);
+		expect(res_.headers['accept-ranges']).toBe('bytes');
+		expect(res_.headers['content-length']).toBe('100');
+		expect(res_.headers['content-disposition']).toBe('attachment; filename="export.txt"');
+		expect(res_.text).toBe(exportContent);
+	});
+
+	it('supports range requests', async () => {
+		const res_ = await request(app).get('/files/path').set('Range', 'bytes=10-19');
+		expect(res_.status).toBe(206);
+		expect(res_.headers['content-range']).toBe('bytes 10-19/100');
+		expect(res_.headers['content-length']).toBe('10');
+		expect(res_.text).toBe(exportContent.slice(10, 20));
+
+		const unsatisfiable = await request(app)
+			.get('/files/path')
+			.set('Range', 'bytes=500-600');
+		expect(unsatisfiable.status).toBe(416);
+		expect(unsatisfiable.headers['content-range']).toBe('bytes */100');
+	});
+
+	it('returns 404 for missing files', async () => {
+		const res_ = await request(app).get('/files/missing');
+		expect(res_.status).toBe(404);
+		expect(res_.body).toEqual({ message: 'File not found' });
+	});
+
+	it('pipes readable streams', async () => {
+		const res_ = await request(app).get('/files/stream');
+		expect(res_.status).toBe(200);
+		expect(res_.headers['content-disposition']).toBe('inline');
+		expect(res_.body).toEqual({ a: 1 });
+	});
+
+	it('destroys streams that are not piped on HEAD', async () => {
+		const res_ = await request(app).head('/files/tracked');
+		expect(res_.status).toBe(200);
+		expect(res_.headers['content-length']).toBe('4');
+		expect(lastStream?.destroyed).toBe(true);
+	});
+
+	it('passes stream errors to the error handler', async () => {
+		const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+		const res_ = await request(app).get('/files/broken');
+		spy.mockRestore();
+		expect(res_.status).toBe(500);
+		expect(res_.body).toEqual({ errorId: 1, message: 'Some error happen' });
+	});
+});
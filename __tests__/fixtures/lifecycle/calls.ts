@@ -0,0 +1,6 @@
+export const LIFECYCLE_TYPES = {
+	Database: Symbol.for('LifecycleDatabase'),
+	Repository: Symbol.for('LifecycleRepository'),
+};
+
+export const calls: string[] = [];
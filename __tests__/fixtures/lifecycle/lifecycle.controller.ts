@@ -0,0 +1,37 @@
+import 'reflect-metadata';
+import {
+	controller,
+	Controller,
+	get,
+	inject,
+	OnApplicationShutdown,
+	OnModuleInit,
+} from '../../../index';
+import { calls, LIFECYCLE_TYPES } from './calls';
+import { RepositoryService } from './lifecycle.service';
+
+@controller('/lifecycle')
+export class LifecycleController
+	extends Controller
+	implements OnModuleInit, OnApplicationShutdown
+{
+	constructor(
+		@inject(LIFECYCLE_TYPES.Repository) public repository: RepositoryService
+	) {
+		super();
+	}
+
+	onModuleInit() {
+		calls.push('controller:init');
+	}
+	onApplicationShutdown(signal?: string) {
+		calls.push(`controller:shutdown:${signal ?? ''}`);
+	}
+
+	@get('/slow')
+	async slow() {
+		await new Promise((resolve) => setTimeout(resolve, 300));
+		calls.push('request:finished');
+		return { ok: true };
+	}
+}
@@ -0,0 +1,37 @@
+import 'reflect-metadata';
+import {
+	autoBind,
+	inject,
+	OnApplicationBootstrap,
+	OnApplicationShutdown,
+	OnModuleInit,
+} from '../../../index';
+import { calls, LIFECYCLE_TYPES } from './calls';
+
+@autoBind(LIFECYCLE_TYPES.Database)
+export class DatabaseService
+	implements OnModuleInit, OnApplicationBootstrap, OnApplicationShutdown
+{
+	onModuleInit() {
+		calls.push('database:init');
+	}
+	onApplicationBootstrap() {
+		calls.push('database:bootstrap');
+	}
+	async onApplicationShutdown(signal?: string) {
+		calls.push(`database:shutdown:${signal ?? ''}`);
+	}
+}
+
+@autoBind(LIFECYCLE_TYPES.Repository)
+export class RepositoryService implements OnModuleInit, OnApplicationShutdown {
+	constructor(
+		@inject(LIFECYCLE_TYPES.Database) public database: DatabaseService
+	) {}
+	async onModuleInit() {
+		calls.push('repository:init');
+	}
+	onApplicationShutdown(signal?: string) {
+		calls.push(`repository:shutdown:${signal ?? ''}`);
+	}
+}
@@ -0,0 +1,296 @@
+// __tests__/gateway.test.ts
+import 'reflect-metadata';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { WebSocket } from 'ws';
+import {
+	authenticated,
+	authorized,
+	container,
+	gateway,
+	Gateway,
+	IApp,
+	IGatewayClient,
+	IGatewayMessage,
+	MINI_TYPES,
+	onMessage,
+	OnGatewayConnection,
+	OnGatewayDisconnect,
+	validate,
+} from '../index';
+
+class JoinRoomDto {
+	@IsString()
+	@IsNotEmpty()
+	room!: string;
+}
+
+class ProfileDto {
+	@IsString()
+	name!: string;
+}
+
+const disconnected: string[] = [];
+const profiles: unknown[] = [];
+
+@gateway('/chat')
+class ChatGateway extends Gateway implements OnGatewayConnection, OnGatewayDisconnect {
+	onConnection(client: IGatewayClient) {
+		client.send('welcome', { id: client.id });
+	}
+
+	onDisconnect(client: IGatewayClient) {
+		disconnected.push(client.id);
+	}
+
+	@onMessage('ping')
+	ping(data: unknown) {
+		return { pong: data };
+	}
+
+	@onMessage('join')
+	@validate({ body: JoinRoomDto })
+	join(data: JoinRoomDto, client: IGatewayClient) {
+		client.to(data.room).emit('joined', { id: client.id });
+		client.join(data.room);
+		return { room: data.room, size: this.server.roomSize(data.room) };
+	}
+
+	@onMessage('profile')
+	@validate({ body: ProfileDto, validatorOptions: { whitelist: true } })
+	profile(data: ProfileDto) {
+		profiles.push(data);
+		return data;
+	}
+
+	@onMessage('say')
+	say(data: { room: string; text: string }, client: IGatewayClient) {
+		this.server.to(data.room).emit('message', { from: client.id, text: data.text });
+	}
+
+	@onMessage('admin')
+	@authenticated()
+	@authorized('chat.admin')
+	admin(_data: unknown, client: IGatewayClient) {
+		return { user: client.user?.id };
+	}
+}
+
+@gateway('/private')
+@authenticated()
+class PrivateGateway extends Gateway {
+	@onMessage('whoami')
+	whoami(_data: unknown, client: IGatewayClient) {
+		return client.user;
+	}
+}
+
+@gateway('/fragile')
+class FragileGateway extends Gateway implements OnGatewayDisconnect {
+	async onDisconnect() {
+		throw new Error('cleanup failed');
+	}
+}
+
+type TestClient = { ws: WebSocket; next(): Promise<IGatewayMessage> };
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let server!: http.Server;
+let port = 0;
+
+const connect = (path: string, headers: Record<string, string> = {}) =>
+	new Promise<TestClient>((resolve, reject) => {
+		const ws = new WebSocket(`ws://127.0.0.1:${port}${path}`, { headers });
+		const queue: IGatewayMessage[] = [];
+		const waiters: Array<(message: IGatewayMessage) => void> = [];
+		ws.on('message', (raw) => {
+			const message = JSON.parse(raw.toString());
+			const waiter = waiters.shift();
+			if (waiter) waiter(message);
+			else queue.push(message);
+		});
+		ws.once('open', () =>
+			resolve({
+				ws,
+				next: () =>
+					queue.length
+						? Promise.resolve(queue.shift()!)
+						: new Promise((r) => waiters.push(r)),
+			})
+		);
+		ws.once('error', reject);
+	});
+
+const closeClient = (client: TestClient) =>
+	new Promise((resolve) => {
+		client.ws.once('close', resolve);
+		client.ws.close();
+	});
+
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IGateway).to(ChatGateway);
+	container.bind(MINI_TYPES.IGateway).to(PrivateGateway);
+	container.bind(MINI_TYPES.IGateway).to(FragileGateway);
+	const app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Gateway Application',
+		logger: false,
+	});
+	server = http.createServer(app);
+	appFromContainer.attachGateways(server);
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+	port = (server.address() as AddressInfo).port;
+});
+afterAll(async () => {
+	await appFromContainer.close();
+	await new Promise((resolve) => server.close(resolve));
+});
+
+describe('@gateway', () => {
+	it('calls connection hooks and answers messages', async () => {
+		const client = await connect('/chat');
+		const welcome = await client.next();
+		expect(welcome.event).toBe('welcome');
+
+		client.ws.send(JSON.stringify({ event: 'ping', data: 42, id: 'a1' }));
+		expect(await client.next()).toEqual({ event: 'ping', data: { pong: 42 }, id: 'a1' });
+
+		await closeClient(client);
+		for (let i = 0; i < 50 && !disconnected.includes((welcome.data as any).id); i++)
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		expect(disconnected).toContain((welcome.data as any).id);
+	});
+
+	it('reports invalid and unknown messages', async () => {
+		const client = await connect('/chat');
+		await client.next();
+
+		client.ws.send('not json');
+		expect(await client.next()).toEqual({
+			event: 'error',
+			data: { message: 'Invalid message' },
+		});
+
+		client.ws.send(JSON.stringify({ event: 'nope', id: 3 }));
+		expect(await client.next()).toEqual({
+			event: 'error',
+			data: { message: 'Unknown event: nope' },
+			id: 3,
+		});
+		await closeClient(client);
+	});
+
+	it('validates payloads with @validate DTOs', async () => {
+		const client = await connect('/chat');
+		await client.next();
+
+		client.ws.send(JSON.stringify({ event: 'join', data: { room: '' } }));
+		const error = await client.next();
+		expect(error.event).toBe('error');
+		expect(error.data).toMatchObject({
+			message: 'Validation error',
+			validationErrors: [expect.objectContaining({ field: 'room', source: 'body' })],
+		});
+		await closeClient(client);
+	});
+
+	it('passes the validated DTO instance to the handler', async () => {
+		const client = await connect('/chat');
+		await client.next();
+
+		client.ws.send(
+			JSON.stringify({ event: 'profile', data: { name: 'Ada', admin: true } })
+		);
+		const reply = await client.next();
+		expect(reply.data).toEqual({ name: 'Ada' });
+		expect(profiles[0]).toBeInstanceOf(ProfileDto);
+		expect(profiles[0]).not.toHaveProperty('admin');
+		await closeClient(client);
+	});
+
+	it('broadcasts to rooms', async () => {
+		const alice = await connect('/chat');
+		const bob = await connect('/chat');
+		const outsider = await connect('/chat');
+		const aliceId = ((await alice.next()).data as any).id;
+		const bobId = ((await bob.next()).data as any).id;
+		await outsider.next();
+
+		alice.ws.send(JSON.stringify({ event: 'join', data: { room: 'general' } }));
+		expect((await alice.next()).data).toEqual({ room: 'general', size: 1 });
+
+		bob.ws.send(JSON.stringify({ event: 'join', data: { room: 'general' } }));
+		expect((await bob.next()).data).toEqual({ room: 'general', size: 2 });
+		expect(await alice.next()).toEqual({ event: 'joined', data: { id: bobId } });
+
+		outsider.ws.send(JSON.stringify({ event: 'say', data: { room: 'general', text: 'hi' } }));
+		const expected = { event: 'message', data: { from: expect.any(String), text: 'hi' } };
+		expect(await alice.next()).toEqual(expected);
+		expect(await bob.next()).toEqual(expected);
+
+		alice.ws.send(JSON.stringify({ event: 'say', data: { room: 'general', text: 'yo' } }));
+		expect((await bob.next()).data).toEqual({ from: aliceId, text: 'yo' });
+		outsider.ws.send(JSON.stringify({ event: 'ping', data: 1 }));
+		// Odada olmayan istemci yayın almaz, ilk mesajı ping yanıtıdır
+		expect((await outsider.next()).event).toBe('ping');
+
+		await Promise.all([alice, bob, outsider].map(closeClient));
+	});
+
+	it('applies @authenticated/@authorized to messages', async () => {
+		const anonymous = await connect('/chat');
+		await anonymous.next();
+		anonymous.ws.send(JSON.stringify({ event: 'admin' }));
+		expect(await anonymous.next()).toEqual({
+			event: 'error',
+			data: { message: 'Unauthorized' },
+		});
+		await closeClient(anonymous);
+
+		const user = await connect('/chat', { 'x-authenticated': 'true', 'x-user-id': 'u1' });
+		await user.next();
+		user.ws.send(JSON.stringify({ event: 'admin' }));
+		expect(await user.next()).toEqual({ event: 'error', data: { message: 'Forbidden' } });
+		await closeClient(user);
+
+		const admin = await connect('/chat', {
+			'x-authenticated': 'true',
+			'x-user-id': 'u2',
+			'x-user-permissions': 'chat.admin',
+		});
+		await admin.next();
+		admin.ws.send(JSON.stringify({ event: 'admin' }));
+		expect(await admin.next()).toEqual({ event: 'admin', data: { user: 'u2' } });
+		await closeClient(admin);
+	});
+
+	it('rejects unauthenticated handshakes for protected gateways', async () => {
+		await expect(connect('/private')).rejects.toThrow('Unexpected server response: 401');
+
+		const client = await connect('/private', { 'x-authenticated': 'true', 'x-user-id': 'u1' });
+		client.ws.send(JSON.stringify({ event: 'whoami' }));
+		expect((await client.next()).data).toMatchObject({ id: 'u1' });
+		await closeClient(client);
+	});
+
+	it('logs errors thrown by onDisconnect', async () => {
+		const logged = new Promise<unknown[]>((resolve) =>
+			jest.spyOn(console, 'error').mockImplementationOnce((...args) => resolve(args))
+		);
+		await closeClient(await connect('/fragile'));
+		const [message, error] = await logged;
+		expect(message).toBe('Gateway onDisconnect failed:');
+		expect((error as Error).message).toBe('cleanup failed');
+		jest.restoreAllMocks();
+	});
+
+	it('closes open connections on shutdown', async () => {
+		const client = await connect('/chat');
+		await client.next();
+		const closed = new Promise<number>((resolve) => client.ws.once('close', resolve));
+		await appFromContainer.close();
+		expect(await closed).toBe(1001);
+	});
+});
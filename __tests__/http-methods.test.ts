@@ -0,0 +1,186 @@
+// __tests__/http-methods.test.ts
+import 'reflect-metadata';
+import { Express, Request, Response, Router } from 'express';
+import request from 'supertest';
+import {
+	all,
+	App,
+	container,
+	controller,
+	Controller,
+	del,
+	get,
+	head,
+	IApp,
+	MINI_TYPES,
+	options,
+	post,
+	req,
+	res,
+} from '../index';
+
+@controller('/methods')
+class MethodsController extends Controller {
+	@get('/items')
+	list() {
+		return [{ id: 1 }];
+	}
+
+	@post('/items')
+	create() {
+		return { created: true };
+	}
+
+	@head('/items/:id')
+	exists(@res() response: Response) {
+		response.setHeader('X-Exists', 'yes');
+		response.status(200).end();
+	}
+
+	@del('/items/:id')
+	remove() {
+		return { deleted: true };
+	}
+
+	@options('/custom')
+	describe(@res() response: Response) {
+		response.setHeader('Allow', 'OPTIONS');
+		response.status(200).json({ custom: true });
+	}
+
+	@all('/echo')
+	echo(@req() request_: Request) {
+		return { method: request_.method };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(MethodsController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Methods Application',
+		logger: false,
+		cors: false,
+		afterRoutes: [
+			Router().put('/methods/items', (_req, res_) => {
+				res_.json({ replaced: true });
+			}),
+		],
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('HTTP methods', () => {
+	it('answers HEAD automatically for GET routes without a body', async () => {
+		const res_ = await request(app).head('/methods/items');
+		expect(res_.status).toBe(200);
+		expect(res_.headers['content-type']).toMatch(/json/);
+		expect(res_.text).toBeUndefined();
+	});
+
+	it('routes explicit @head and @options handlers', async () => {
+		const exists = await request(app).head('/methods/items/1');
+		expect(exists.status).toBe(200);
+		expect(exists.headers['x-exists']).toBe('yes');
+
+		const custom = await request(app).options('/methods/custom');
+		expect(custom.status).toBe(200);
+		expect(custom.body).toEqual({ custom: true });
+	});
+
+	it('accepts every method on @all routes', async () => {
+		for (const method of ['get', 'post', 'put', 'patch', 'delete'] as const) {
+			const res_ = await request(app)[method]('/methods/echo');
+			expect(res_.body).toEqual({ method: method.toUpperCase() });
+		}
+	});
+
+	it('returns 405 with an Allow header when only the method does not match', async () => {
+		const res_ = await request(app).patch('/methods/items');
+		expect(res_.status).toBe(405);
+		expect(res_.headers.allow).toBe('GET, HEAD, POST');
+		expect(res_.body.message).toBe('Method PATCH is not allowed for /methods/items');
+
+		const byId = await request(app).get('/methods/items/1');
+		expect(byId.status).toBe(405);
+		expect(byId.headers.allow).toBe('HEAD, DELETE');
+
+		const missing = await request(app).put('/methods/unknown');
+		expect(missing.status).toBe(404);
+	});
+
+	it('lets afterRoutes handle other methods on controller paths', async () => {
+		const replaced = await request(app).put('/methods/items');
+		expect(replaced.status).toBe(200);
+		expect(replaced.body).toEqual({ replaced: true });
+	});
+
+	it('answers OPTIONS with the allowed methods', async () => {
+		const res_ = await request(app).options('/methods/items');
+		expect(res_.status).toBe(200);
+		expect(res_.headers.allow).toBe('GET, HEAD, POST');
+	});
+
+	it('reaches @options handlers with the default cors setup', async () => {
+		const corsApp = new App();
+		const expressApp = await corsApp.build({
+			host: 'localhost',
+			port: 3000,
+			applicationName: 'Methods With Cors',
+			logger: false,
+		});
+		const custom = await request(expressApp)
+			.options('/methods/custom')
+			.set('Origin', 'https://app.example.com');
+		expect(custom.status).toBe(200);
+		expect(custom.body).toEqual({ custom: true });
+
+		const preflight = await request(expressApp)
+			.options('/methods/items')
+			.set('Origin', 'https://app.example.com')
+			.set('Access-Control-Request-Method', 'POST');
+		expect(preflight.status).toBe(200);
+		expect(preflight.headers['access-control-allow-origin']).toBe('*');
+		expect(preflight.headers.allow).toBe('GET, HEAD, POST');
+		await corsApp.close();
+	});
+
+	it('documents head, options and expanded all routes in Swagger', async () => {
+		const spec = (await request(app).get('/api-docs.json')).body;
+		expect(Object.keys(spec.paths['/methods/items/{id}']).sort()).toEqual([
+			'delete',
+			'head',
+		]);
+		const headResponses = spec.paths['/methods/items/{id}'].head.responses;
+		Object.values(headResponses).forEach((response: any) =>
+			expect(response.content).toBeUndefined()
+		);
+		expect(spec.paths['/methods/custom'].options).toBeDefined();
+		expect(Object.keys(spec.paths['/methods/echo']).sort()).toEqual([
+			'delete',
+			'get',
+			'patch',
+			'post',
+			'put',
+		]);
+		expect(spec.paths['/methods/echo'].all).toBeUndefined();
+	});
+
+	it('uses valid methods in the Postman collection', async () => {
+		const collection = (await request(app).get('/postman.json')).body;
+		const items = collection.item[0].item as any[];
+		const methods = items.map((item) => item.request.method);
+		expect(methods).not.toContain('ALL');
+		expect(methods).toEqual(
+			expect.arrayContaining(['HEAD', 'OPTIONS', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE'])
+		);
+		const echo = items.filter((item) => item.request.url.raw.endsWith('/methods/echo'));
+		expect(echo).toHaveLength(5);
+		expect(echo[0].name).toBe('/echo (GET)');
+	});
+});
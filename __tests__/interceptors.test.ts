@@ -0,0 +1,178 @@
+// __tests__/interceptors.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import {
+	CallHandler,
+	ConflictException,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	IExecutionContext,
+	IInterceptor,
+	injectable,
+	MINI_TYPES,
+	params,
+	ResponseBuilder,
+	useInterceptors,
+} from '../index';
+
+const calls: string[] = [];
+
+@injectable()
+class TimingInterceptor implements IInterceptor {
+	async intercept(context: IExecutionContext, next: CallHandler) {
+		calls.push('timing:before');
+		const started = Date.now();
+		const result = await next();
+		context.res.setHeader('x-response-time', `${Date.now() - started}ms`);
+		calls.push('timing:after');
+		return result;
+	}
+}
+
+@injectable()
+class EnvelopeInterceptor implements IInterceptor {
+	async intercept(_context: IExecutionContext, next: CallHandler) {
+		calls.push('envelope:before');
+		const result = await next();
+		calls.push('envelope:after');
+		if (result instanceof ResponseBuilder) {
+			result.data = { data: result.data };
+			return result;
+		}
+		return { data: result };
+	}
+}
+
+@injectable()
+class CacheInterceptor implements IInterceptor {
+	private cache = new Map<string, unknown>();
+	async intercept(context: IExecutionContext, next: CallHandler) {
+		const key = context.req.originalUrl;
+		if (this.cache.has(key)) return this.cache.get(key);
+		const result = await next();
+		this.cache.set(key, result);
+		return result;
+	}
+}
+
+@injectable()
+class DuplicateErrorInterceptor implements IInterceptor {
+	async intercept(_context: IExecutionContext, next: CallHandler) {
+		try {
+			return await next();
+		} catch (error) {
+			if (error instanceof Error && error.message === 'duplicate')
+				throw new ConflictException({ message: 'Already exists' });
+			throw error;
+		}
+	}
+}
+
+@injectable()
+class UppercaseParamsInterceptor implements IInterceptor {
+	intercept(context: IExecutionContext, next: CallHandler) {
+		const [p] = context.args;
+		context.args = [{ ...p, word: String(p.word).toUpperCase() }];
+		return next();
+	}
+}
+
+let handlerCalls = 0;
+
+@controller('/items')
+@useInterceptors(EnvelopeInterceptor)
+class ItemsController extends Controller {
+	@get('/')
+	list() {
+		calls.push('handler');
+		return [1, 2];
+	}
+
+	@get('/built')
+	built() {
+		return new ResponseBuilder().created({ id: 1 });
+	}
+
+	@get('/cached')
+	@useInterceptors(CacheInterceptor)
+	cached() {
+		handlerCalls++;
+		return { count: handlerCalls };
+	}
+
+	@get('/echo/:word')
+	@useInterceptors(UppercaseParamsInterceptor)
+	echo(@params() p: { word: string }) {
+		return p;
+	}
+
+	@get('/duplicate')
+	@useInterceptors(DuplicateErrorInterceptor)
+	duplicate() {
+		throw new Error('duplicate');
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(ItemsController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Interceptor Application',
+		logger: false,
+		interceptors: [TimingInterceptor],
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+beforeEach(() => {
+	calls.length = 0;
+});
+
+describe('Interceptors', () => {
+	it('wraps the handler in onion order: global → controller → method', async () => {
+		const res_ = await request(app).get('/items');
+		expect(res_.status).toBe(200);
+		expect(res_.body).toEqual({ data: [1, 2] });
+		expect(res_.headers['x-response-time']).toMatch(/^\d+ms$/);
+		expect(calls).toEqual([
+			'timing:before',
+			'envelope:before',
+			'handler',
+			'envelope:after',
+			'timing:after',
+		]);
+	});
+
+	it('can transform a ResponseBuilder before it is built', async () => {
+		const res_ = await request(app).get('/items/built');
+		expect(res_.status).toBe(201);
+		expect(res_.body).toEqual({ data: { id: 1 } });
+	});
+
+	it('can short-circuit the handler (cache)', async () => {
+		const first = await request(app).get('/items/cached');
+		const second = await request(app).get('/items/cached');
+		expect(first.body).toEqual({ data: { count: 1 } });
+		expect(second.body).toEqual({ data: { count: 1 } });
+		expect(handlerCalls).toBe(1);
+	});
+
+	it('can replace handler arguments', async () => {
+		const res_ = await request(app).get('/items/echo/hello');
+		expect(res_.body).toEqual({ data: { word: 'HELLO' } });
+	});
+
+	it('can map handler errors', async () => {
+		const res_ = await request(app).get('/items/duplicate');
+		expect(res_.status).toBe(409);
+		expect(res_.body).toEqual({ message: 'Already exists' });
+	});
+});
@@ -0,0 +1,151 @@
+// __tests__/param-decorators.test.ts
+import 'reflect-metadata';
+import { Express, Request } from 'express';
+import request from 'supertest';
+import {
+	authenticated,
+	container,
+	controller,
+	Controller,
+	cookie,
+	createParamDecorator,
+	get,
+	header,
+	headers,
+	IApp,
+	ip,
+	IParamMetadata,
+	IPipeTransform,
+	MINI_TYPES,
+	param,
+	parseCookies,
+	query,
+	user,
+} from '../index';
+
+const tenant = createParamDecorator<string>(
+	(fallback, req: Request) => req.get('x-tenant') ?? fallback
+);
+
+const seen: IParamMetadata[] = [];
+const upper: IPipeTransform<string, string> = {
+	transform(value, metadata) {
+		seen.push(metadata);
+		return value?.toUpperCase();
+	},
+};
+
+@controller('/params')
+class ParamsController extends Controller {
+	@get('/items/:id')
+	item(
+		@param('id') id: string,
+		@query('page') page: string,
+		@query() all: Record<string, unknown>,
+		@header('X-Tenant') tenantHeader: string
+	) {
+		return { id, page, all, tenantHeader };
+	}
+
+	@get('/headers')
+	headers(@headers() requestHeaders: Record<string, string>) {
+		return { custom: requestHeaders['x-custom'] };
+	}
+
+	@get('/me')
+	@authenticated()
+	me(@user() current: unknown, @user('id') id: string, @ip() address: string) {
+		return { current, id, hasIp: typeof address === 'string' };
+	}
+
+	@get('/cookies')
+	cookies(@cookie('session') session: string, @cookie('missing') missing?: string) {
+		return { session, missing: missing ?? null };
+	}
+
+	@get('/custom/:code')
+	custom(@tenant('public') tenantId: string, @param('code', upper) code: string) {
+		return { tenantId, code };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(ParamsController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Params Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('parameter decorators', () => {
+	it('injects single route, query and header values', async () => {
+		const res_ = await request(app)
+			.get('/params/items/42?page=3&sort=asc')
+			.set('x-tenant', 'acme');
+		expect(res_.body).toEqual({
+			id: '42',
+			page: '3',
+			all: { page: '3', sort: 'asc' },
+			tenantHeader: 'acme',
+		});
+	});
+
+	it('fills @headers()', async () => {
+		const res_ = await request(app).get('/params/headers').set('x-custom', 'yes');
+		expect(res_.body).toEqual({ custom: 'yes' });
+	});
+
+	it('injects the authenticated user and ip', async () => {
+		const res_ = await request(app)
+			.get('/params/me')
+			.set('x-authenticated', 'true')
+			.set('x-user-id', 'u1');
+		expect(res_.body).toEqual({
+			current: { id: 'u1', permissions: [] },
+			id: 'u1',
+			hasIp: true,
+		});
+	});
+
+	it('reads cookies', async () => {
+		const res_ = await request(app)
+			.get('/params/cookies')
+			.set('Cookie', 'theme=dark; session=abc%20def');
+		expect(res_.body).toEqual({ session: 'abc def', missing: null });
+		expect(parseCookies('a=1; a=2; constructor=x')).toEqual({ a: '1', constructor: 'x' });
+	});
+
+	it('supports custom decorators and per-parameter pipes', async () => {
+		const fallback = await request(app).get('/params/custom/ab');
+		expect(fallback.body).toEqual({ tenantId: 'public', code: 'AB' });
+		expect(seen[0]).toEqual({ name: 'code', in: 'path', type: String });
+
+		const res_ = await request(app).get('/params/custom/cd').set('x-tenant', 'acme');
+		expect(res_.body).toEqual({ tenantId: 'acme', code: 'CD' });
+	});
+
+	it('lists decorated parameters in Swagger', async () => {
+		const spec = (await request(app).get('/api-docs.json')).body;
+		const parameters = spec.paths['/params/items/{id}'].get.parameters;
+		expect(parameters).toEqual([
+			{ name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+			{ name: 'page', in: 'query', required: false, schema: { type: 'string' } },
+			{ name: 'X-Tenant', in: 'header', required: false, schema: { type: 'string' } },
+		]);
+		expect(spec.paths['/params/cookies'].get.parameters).toContainEqual({
+			name: 'session',
+			in: 'cookie',
+			required: false,
+			schema: { type: 'string' },
+		});
+		// Swagger'a eklenecek bir ad/konumu olmayan custom dekoratörler listelenmez
+		expect(spec.paths['/params/custom/{code}'].get.parameters).toHaveLength(1);
+	});
+});
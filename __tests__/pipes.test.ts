@@ -0,0 +1,178 @@
+// __tests__/pipes.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import {
+	container,
+	controller,
+	Controller,
+	DefaultValuePipe,
+	get,
+	header,
+	IApp,
+	injectable,
+	IParamMetadata,
+	IPipeTransform,
+	MINI_TYPES,
+	param,
+	ParseBoolPipe,
+	ParseEnumPipe,
+	ParseIntPipe,
+	ParseUUIDPipe,
+	pipeValidationError,
+	query,
+} from '../index';
+
+enum Status {
+	Open = 'open',
+	Closed = 'closed',
+}
+
+enum Priority {
+	Low = 1,
+	High = 2,
+}
+
+@injectable()
+class ObjectIdCounter {
+	calls = 0;
+}
+
+@injectable()
+class ParseObjectIdPipe implements IPipeTransform<unknown, string> {
+	constructor(private readonly counter: ObjectIdCounter) {}
+
+	transform(value: unknown, metadata: IParamMetadata) {
+		this.counter.calls++;
+		if (typeof value !== 'string' || !/^[0-9a-f]{24}$/i.test(value))
+			throw pipeValidationError(metadata, `${metadata.name} must be an ObjectId`);
+		return value.toLowerCase();
+	}
+
+	applySchema(schema: Record<string, unknown>) {
+		return { ...schema, pattern: '^[0-9a-fA-F]{24}$' };
+	}
+}
+
+@controller('/pipes')
+class PipesController extends Controller {
+	@get('/int/:id')
+	int(@param('id', ParseIntPipe) id: number) {
+		return { id, type: typeof id };
+	}
+
+	@get('/list')
+	list(
+		@query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+		@query('archived', new ParseBoolPipe({ optional: true })) archived?: boolean,
+		@query('status', new ParseEnumPipe(Status, { optional: true })) status?: Status,
+		@query('priority', new ParseEnumPipe(Priority, { optional: true })) priority?: Priority
+	) {
+		return { page, archived: archived ?? null, status: status ?? null, priority: priority ?? null };
+	}
+
+	@get('/uuid/:id')
+	uuid(@param('id', new ParseUUIDPipe()) id: string, @header('x-count', ParseIntPipe) count: number) {
+		return { id, count };
+	}
+
+	@get('/objects/:id')
+	object(@param('id', ParseObjectIdPipe) id: string) {
+		return { id };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(PipesController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Pipes Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('pipes', () => {
+	it('parses integers from a class token', async () => {
+		const res_ = await request(app).get('/pipes/int/42');
+		expect(res_.body).toEqual({ id: 42, type: 'number' });
+
+		const invalid = await request(app).get('/pipes/int/4x');
+		expect(invalid.status).toBe(400);
+		expect(invalid.body).toEqual({
+			message: 'Validation error',
+			validationErrors: [
+				{ field: 'id', errors: ['id must be an integer'], source: 'params' },
+			],
+		});
+	});
+
+	it('applies defaults, booleans and enums', async () => {
+		const defaults = await request(app).get('/pipes/list');
+		expect(defaults.body).toEqual({ page: 1, archived: null, status: null, priority: null });
+
+		const res_ = await request(app).get(
+			'/pipes/list?page=3&archived=true&status=closed&priority=2'
+		);
+		expect(res_.body).toEqual({ page: 3, archived: true, status: 'closed', priority: 2 });
+
+		const invalid = await request(app).get('/pipes/list?status=pending');
+		expect(invalid.status).toBe(400);
+		expect(invalid.body.validationErrors).toEqual([
+			{ field: 'status', errors: ['status must be one of: open, closed'], source: 'query' },
+		]);
+
+		const notBool = await request(app).get('/pipes/list?archived=maybe');
+		expect(notBool.body.validationErrors[0].errors).toEqual(['archived must be a boolean']);
+	});
+
+	it('validates UUIDs and header values', async () => {
+		const id = '3f2504e0-4f89-41d3-9a0c-0305e82c3301';
+		const res_ = await request(app).get(`/pipes/uuid/${id}`).set('x-count', '5');
+		expect(res_.body).toEqual({ id, count: 5 });
+
+		const invalid = await request(app).get('/pipes/uuid/nope').set('x-count', '5');
+		expect(invalid.body.validationErrors).toEqual([
+			{ field: 'id', errors: ['id must be a UUID'], source: 'params' },
+		]);
+
+		const missingHeader = await request(app).get(`/pipes/uuid/${id}`);
+		expect(missingHeader.body.validationErrors).toEqual([
+			{ field: 'x-count', errors: ['x-count must be an integer'], source: 'headers' },
+		]);
+	});
+
+	it('resolves user pipes with their dependencies from the container', async () => {
+		const res_ = await request(app).get('/pipes/objects/507F1F77BCF86CD799439011');
+		expect(res_.body).toEqual({ id: '507f1f77bcf86cd799439011' });
+		expect(container.get(ObjectIdCounter).calls).toBeGreaterThan(0);
+
+		const invalid = await request(app).get('/pipes/objects/123');
+		expect(invalid.body.validationErrors[0].errors).toEqual(['id must be an ObjectId']);
+	});
+
+	it('contributes to the OpenAPI parameter schema', async () => {
+		const spec = (await request(app).get('/api-docs.json')).body;
+		const schemaOf = (path: string, name: string) =>
+			spec.paths[path].get.parameters.find((p: any) => p.name === name).schema;
+
+		expect(schemaOf('/pipes/int/{id}', 'id')).toEqual({ type: 'integer' });
+		expect(schemaOf('/pipes/list', 'page')).toEqual({ type: 'integer', default: 1 });
+		expect(schemaOf('/pipes/list', 'archived')).toEqual({ type: 'boolean' });
+		expect(schemaOf('/pipes/list', 'status')).toEqual({
+			type: 'string',
+			enum: ['open', 'closed'],
+		});
+		expect(schemaOf('/pipes/list', 'priority')).toEqual({ type: 'number', enum: [1, 2] });
+		expect(schemaOf('/pipes/uuid/{id}', 'id')).toEqual({ type: 'string', format: 'uuid' });
+		expect(schemaOf('/pipes/objects/{id}', 'id')).toEqual({
+			type: 'string',
+			pattern: '^[0-9a-fA-F]{24}$',
+		});
+	});
+});
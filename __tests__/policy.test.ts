@@ -0,0 +1,132 @@
+// __tests__/policy.test.ts
+import 'reflect-metadata';
+import { Express, Request } from 'express';
+import request from 'supertest';
+import {
+	authenticated,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	injectable,
+	IPolicy,
+	IPolicyContext,
+	MINI_TYPES,
+	NotFoundException,
+	policy,
+	req,
+	validate,
+} from '../index';
+import { IsNumberString } from 'class-validator';
+
+type Order = { id: string; ownerId: string };
+
+@injectable()
+class OrderStore {
+	orders: Order[] = [
+		{ id: '1', ownerId: 'u1' },
+		{ id: '2', ownerId: 'u2' },
+	];
+	find(id: string) {
+		return this.orders.find((o) => o.id === id);
+	}
+}
+
+@injectable()
+class OwnOrderPolicy implements IPolicy<Order> {
+	constructor(private readonly store: OrderStore) {}
+	loadResource(req: Request) {
+		const order = this.store.find(String(req.params.id));
+		if (!order) throw new NotFoundException({ message: 'Order not found' });
+		return order;
+	}
+	evaluate({ user, resource }: IPolicyContext<Order>) {
+		if (resource?.ownerId === user?.id) return { allow: true };
+		return { allow: false, reason: 'You can only access your own orders' };
+	}
+}
+
+@injectable()
+class BusinessHoursPolicy implements IPolicy {
+	static open = true;
+	evaluate() {
+		return BusinessHoursPolicy.open;
+	}
+}
+
+class OrderParams {
+	@IsNumberString()
+	id!: string;
+}
+
+@controller('/orders')
+@authenticated()
+@policy(BusinessHoursPolicy)
+class OrdersController extends Controller {
+	@get('/:id')
+	@validate({ params: OrderParams })
+	@policy(OwnOrderPolicy)
+	getOrder(@req() req: Request) {
+		return { order: req.resource };
+	}
+
+	@get('/')
+	list() {
+		return { ok: true };
+	}
+}
+
+const userHeaders = (id: string) => ({ 'x-authenticated': 'true', 'x-user-id': id });
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(OrdersController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Policy Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+afterEach(() => {
+	BusinessHoursPolicy.open = true;
+});
+
+describe('@policy', () => {
+	it('allows the owner and exposes the loaded resource', async () => {
+		const res_ = await request(app).get('/orders/1').set(userHeaders('u1'));
+		expect(res_.status).toBe(200);
+		expect(res_.body).toEqual({ order: { id: '1', ownerId: 'u1' } });
+	});
+
+	it('denies with the policy reason as the Forbidden message', async () => {
+		const res_ = await request(app).get('/orders/2').set(userHeaders('u1'));
+		expect(res_.status).toBe(403);
+		expect(res_.body).toEqual({ message: 'You can only access your own orders' });
+	});
+
+	it('runs after authentication and validation', async () => {
+		const anonymous = await request(app).get('/orders/1');
+		expect(anonymous.status).toBe(401);
+
+		const invalid = await request(app).get('/orders/abc').set(userHeaders('u1'));
+		expect(invalid.status).toBe(400);
+	});
+
+	it('propagates errors thrown while loading the resource', async () => {
+		const res_ = await request(app).get('/orders/99').set(userHeaders('u1'));
+		expect(res_.status).toBe(404);
+	});
+
+	it('applies controller-level policies to every route', async () => {
+		BusinessHoursPolicy.open = false;
+		const res_ = await request(app).get('/orders').set(userHeaders('u1'));
+		expect(res_.status).toBe(403);
+		expect(res_.body).toEqual({ message: 'Forbidden' });
+	});
+});
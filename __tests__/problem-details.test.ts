@@ -0,0 +1,139 @@
+// __tests__/problem-details.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import { IsString, MinLength } from 'class-validator';
+import {
+	authenticated,
+	authorized,
+	body,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	MINI_TYPES,
+	NotFoundException,
+	post,
+	validate,
+} from '../index';
+
+class CreateNoteDto {
+	@IsString()
+	@MinLength(3)
+	title!: string;
+}
+
+@controller('/notes')
+class NotesController extends Controller {
+	@post('/')
+	@validate({ body: CreateNoteDto })
+	create(@body() dto: CreateNoteDto) {
+		return dto;
+	}
+
+	@get('/missing')
+	missing() {
+		throw new NotFoundException({ message: 'Note not found', errorId: 42 });
+	}
+
+	@get('/crash')
+	crash() {
+		throw new Error('boom');
+	}
+
+	@get('/secret')
+	@authenticated()
+	@authorized('notes:read')
+	secret() {
+		return { ok: true };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(NotesController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Problem Application',
+		logger: false,
+		errorFormat: 'problem',
+		problemTypeBaseUri: 'https://errors.example.com/',
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('problem+json error format', () => {
+	it('maps HttpException to problem details with extension members', async () => {
+		const res_ = await request(app).get('/notes/missing');
+		expect(res_.status).toBe(404);
+		expect(res_.headers['content-type']).toMatch(/^application\/problem\+json/);
+		expect(res_.body).toEqual({
+			type: 'https://errors.example.com/404',
+			title: 'Not Found',
+			status: 404,
+			detail: 'Note not found',
+			instance: '/notes/missing',
+			errorId: 42,
+		});
+	});
+
+	it('maps unknown errors to 500', async () => {
+		const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+		const res_ = await request(app).get('/notes/crash');
+		spy.mockRestore();
+		expect(res_.status).toBe(500);
+		expect(res_.body).toMatchObject({
+			title: 'Internal Server Error',
+			status: 500,
+			errorId: 1,
+		});
+	});
+
+	it('uses the same shape for validation failures', async () => {
+		const res_ = await request(app).post('/notes').send({ title: 'x' });
+		expect(res_.status).toBe(400);
+		expect(res_.headers['content-type']).toMatch(/^application\/problem\+json/);
+		expect(res_.body).toMatchObject({
+			title: 'Bad Request',
+			status: 400,
+			detail: 'Validation error',
+			validationErrors: [{ field: 'title', errors: [expect.any(String)] }],
+		});
+	});
+
+	it('uses the same shape for auth failures', async () => {
+		const unauthorized = await request(app).get('/notes/secret');
+		expect(unauthorized.status).toBe(401);
+		expect(unauthorized.body).toMatchObject({ title: 'Unauthorized', status: 401 });
+
+		const forbidden = await request(app)
+			.get('/notes/secret')
+			.set('x-authenticated', 'true');
+		expect(forbidden.status).toBe(403);
+		expect(forbidden.headers['content-type']).toMatch(
+			/^application\/problem\+json/
+		);
+		expect(forbidden.body).toMatchObject({ title: 'Forbidden', status: 403 });
+	});
+
+	it('documents problem responses in OpenAPI', async () => {
+		const res_ = await request(app).get('/api-docs.json');
+		const spec = res_.body;
+		expect(spec.components.schemas.ProblemDetails.required).toEqual([
+			'type',
+			'title',
+			'status',
+		]);
+		const responses = spec.paths['/notes/secret'].get.responses;
+		for (const code of ['400', '401', '403', '500']) {
+			expect(responses[code].content['application/problem+json'].schema).toEqual({
+				$ref: '#/components/schemas/ProblemDetails',
+			});
+		}
+	});
+});
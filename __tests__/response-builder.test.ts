@@ -0,0 +1,162 @@
+// __tests__/response-builder.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import {
+	container,
+	controller,
+	Controller,
+	del,
+	get,
+	IApp,
+	MINI_TYPES,
+	post,
+	ResponseBuilder,
+	responseStatus,
+} from '../index';
+
+@controller('/jobs')
+class JobsController extends Controller {
+	@post('/')
+	@responseStatus(201)
+	create() {
+		return new ResponseBuilder().created({ id: 7 }, '/jobs/7');
+	}
+
+	@post('/async')
+	@responseStatus(202)
+	queue() {
+		return new ResponseBuilder().accepted({ jobId: 'j1' });
+	}
+
+	@del('/:id')
+	@responseStatus(204)
+	remove() {
+		return new ResponseBuilder().noContent();
+	}
+
+	@get('/old')
+	@responseStatus(301)
+	old() {
+		return new ResponseBuilder().redirect('/jobs/new', 301);
+	}
+
+	@get('/login')
+	login() {
+		return new ResponseBuilder()
+			.ok({ ok: true })
+			.cookie('session', 'abc', { httpOnly: true })
+			.clearCookie('legacy');
+	}
+
+	@get('/teapot')
+	teapot() {
+		return new ResponseBuilder().ok({ short: true }).setStatus(418);
+	}
+
+	@get('/empty')
+	empty() {
+		return new ResponseBuilder().setStatus(200);
+	}
+
+	@post('/plain')
+	@responseStatus(201, 200)
+	plain() {
+		return { plain: true };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(JobsController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Response Builder Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('ResponseBuilder helpers', () => {
+	it('created() sets the Location header', async () => {
+		const res_ = await request(app).post('/jobs');
+		expect(res_.status).toBe(201);
+		expect(res_.headers.location).toBe('/jobs/7');
+		expect(res_.body).toEqual({ id: 7 });
+	});
+
+	it('accepted() responds with 202', async () => {
+		const res_ = await request(app).post('/jobs/async');
+		expect(res_.status).toBe(202);
+		expect(res_.body).toEqual({ jobId: 'j1' });
+	});
+
+	it('noContent() sends no body', async () => {
+		const res_ = await request(app).delete('/jobs/1');
+		expect(res_.status).toBe(204);
+		expect(res_.text).toBe('');
+		expect(res_.headers['content-type']).toBeUndefined();
+	});
+
+	it('redirect() sets status and Location', async () => {
+		const res_ = await request(app).get('/jobs/old').redirects(0);
+		expect(res_.status).toBe(301);
+		expect(res_.headers.location).toBe('/jobs/new');
+	});
+
+	it('sets and clears cookies', async () => {
+		const res_ = await request(app).get('/jobs/login');
+		const cookies = ([] as string[]).concat(res_.headers['set-cookie'] ?? []);
+		expect(cookies).toEqual(
+			expect.arrayContaining([
+				expect.stringMatching(/^session=abc;.*HttpOnly/),
+				expect.stringMatching(/^legacy=;.*Expires=Thu, 01 Jan 1970/),
+			])
+		);
+	});
+
+	it('setStatus() sets any HttpStatusCode', async () => {
+		const res_ = await request(app).get('/jobs/teapot');
+		expect(res_.status).toBe(418);
+		expect(res_.body).toEqual({ short: true });
+	});
+
+	it('handles empty bodies', async () => {
+		const res_ = await request(app).get('/jobs/empty');
+		expect(res_.status).toBe(200);
+		expect(res_.text).toBe('');
+	});
+
+	it('applies the first @responseStatus code to plain return values', async () => {
+		const res_ = await request(app).post('/jobs/plain');
+		expect(res_.status).toBe(201);
+		expect(res_.body).toEqual({ plain: true });
+	});
+
+	it('keeps status readable on the builder', () => {
+		const builder = new ResponseBuilder().created({ id: 1 });
+		expect(builder.status).toBe(201);
+		builder.status = 202;
+		expect(builder.setStatus(203).status).toBe(203);
+	});
+
+	it('documents declared status codes in Swagger', async () => {
+		const spec = (await request(app).get('/api-docs.json')).body;
+		expect(Object.keys(spec.paths['/jobs/'].post.responses)).toContain('201');
+		expect(spec.paths['/jobs/'].post.responses['200']).toBeUndefined();
+		expect(spec.paths['/jobs/async'].post.responses['202']).toBeDefined();
+		expect(spec.paths['/jobs/{id}'].delete.responses['204']).toEqual({
+			description: 'No Content',
+		});
+		expect(spec.paths['/jobs/old'].get.responses['301'].headers.Location).toBeDefined();
+		expect(spec.paths['/jobs/teapot'].get.responses['200']).toBeDefined();
+		expect(spec.paths['/jobs/empty'].get.responses['200']).toBeDefined();
+		expect(Object.keys(spec.paths['/jobs/plain'].post.responses)).toEqual(
+			expect.arrayContaining(['200', '201'])
+		);
+	});
+});
@@ -0,0 +1,201 @@
+// __tests__/response-validation.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import { IsInt, IsString } from 'class-validator';
+import {
+	App,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	MINI_TYPES,
+	ResponseBuilder,
+	responseType,
+	validateAgainstSchema,
+	inferSchema,
+} from '../index';
+
+class ProductDto {
+	@IsString()
+	name!: string;
+
+	@IsInt()
+	stock!: number;
+}
+
+@controller('/products')
+class ProductsController extends Controller {
+	@get('/good')
+	@responseType(ProductDto)
+	good() {
+		return { name: 'Pen', stock: 3 };
+	}
+
+	@get('/bad')
+	@responseType(ProductDto)
+	bad() {
+		return [{ name: 'Pen', stock: 3 }, { name: 'Ink', stock: 'many' }];
+	}
+
+	@get('/example', 'example', {
+		examples: [{ response: { 200: { id: 1, tags: ['a'] } } }],
+	})
+	example() {
+		return { id: 2, tags: ['b', 'c'] };
+	}
+
+	@get('/drift', 'drift', {
+		examples: [{ response: { 200: { id: 1, tags: ['a'] } } }],
+	})
+	drift() {
+		return { id: '2', tags: [1] };
+	}
+
+	@get('/created', 'created', {
+		examples: [{ response: { 201: { id: 1 } } }],
+	})
+	created() {
+		return new ResponseBuilder().created({ id: 'x' });
+	}
+
+	@get('/removed')
+	@responseType(ProductDto)
+	removed() {
+		return new ResponseBuilder().noContent();
+	}
+
+	@get('/moved')
+	@responseType(ProductDto)
+	moved() {
+		return new ResponseBuilder().redirect('/products/good');
+	}
+
+	@get('/missing')
+	@responseType(ProductDto)
+	missing() {
+		return new ResponseBuilder<any>().ok({ message: 'Not found' }).setStatus(404);
+	}
+
+	@get('/gone', 'gone', {
+		examples: [{ response: { 410: { message: 'Gone' } } }],
+	})
+	@responseType(ProductDto)
+	gone() {
+		return new ResponseBuilder<any>().ok({ reason: 1 }).setStatus(410);
+	}
+
+	@get('/undocumented')
+	undocumented() {
+		return 'anything';
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(ProductsController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Response Validation Application',
+		logger: false,
+		responseValidation: 'error',
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('validateAgainstSchema', () => {
+	it('reports type mismatches and missing fields with paths', () => {
+		const schema = inferSchema({ id: 1, items: [{ price: 1.5 }] });
+		expect(validateAgainstSchema({ id: 1, items: [{ price: 2 }] }, schema)).toEqual([]);
+		expect(validateAgainstSchema({ items: [{ price: 'x' }] }, schema)).toEqual([
+			{ field: 'id', errors: ['id is required'] },
+			{ field: 'items[0].price', errors: ['expected number but got string'] },
+		]);
+	});
+});
+
+describe('Response validation (error mode)', () => {
+	it('passes responses that match the declared DTO', async () => {
+		const res_ = await request(app).get('/products/good');
+		expect(res_.status).toBe(200);
+	});
+
+	it('fails with 500 when the DTO does not match', async () => {
+		const res_ = await request(app).get('/products/bad');
+		expect(res_.status).toBe(500);
+		expect(res_.body.message).toBe(
+			'Response validation failed for ProductsController.bad'
+		);
+		expect(res_.body.validationErrors).toEqual([
+			{ field: '[1].stock', errors: [expect.any(String)] },
+		]);
+	});
+
+	it('validates against schemas inferred from examples', async () => {
+		expect((await request(app).get('/products/example')).status).toBe(200);
+
+		const res_ = await request(app).get('/products/drift');
+		expect(res_.status).toBe(500);
+		expect(res_.body.validationErrors).toEqual([
+			{ field: 'id', errors: ['expected integer but got string'] },
+			{ field: 'tags[0]', errors: ['expected string but got integer'] },
+		]);
+	});
+
+	it('uses the ResponseBuilder status and data', async () => {
+		const res_ = await request(app).get('/products/created');
+		expect(res_.status).toBe(500);
+		expect(res_.body.validationErrors).toEqual([
+			{ field: 'id', errors: ['expected integer but got string'] },
+		]);
+	});
+
+	it('skips empty bodies and redirects', async () => {
+		expect((await request(app).get('/products/removed')).status).toBe(204);
+		expect((await request(app).get('/products/moved').redirects(0)).status).toBe(302);
+	});
+
+	it('checks error statuses only against their own examples', async () => {
+		const missing = await request(app).get('/products/missing');
+		expect(missing.status).toBe(404);
+		expect(missing.body).toEqual({ message: 'Not found' });
+
+		const gone = await request(app).get('/products/gone');
+		expect(gone.status).toBe(500);
+		expect(gone.body.validationErrors).toEqual([
+			{ field: 'message', errors: ['message is required'] },
+		]);
+	});
+
+	it('skips routes without a contract', async () => {
+		const res_ = await request(app).get('/products/undocumented');
+		expect(res_.status).toBe(200);
+	});
+});
+
+describe('Response validation (log mode)', () => {
+	it('logs the mismatch and still sends the response', async () => {
+		const logApp = new App();
+		const expressApp = await logApp.build({
+			host: 'localhost',
+			port: 3000,
+			applicationName: 'Log Mode',
+			logger: false,
+			responseValidation: 'log',
+		});
+		const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+		const res_ = await request(expressApp).get('/products/bad');
+		expect(res_.status).toBe(200);
+		expect(warn).toHaveBeenCalledWith(
+			'Response validation failed for ProductsController.bad',
+			expect.stringContaining('[1].stock')
+		);
+		warn.mockRestore();
+		await logApp.close();
+	});
+});
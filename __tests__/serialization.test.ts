@@ -0,0 +1,149 @@
+// __tests__/serialization.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import { Exclude, Expose } from 'class-transformer';
+import { IsEmail, IsString } from 'class-validator';
+import {
+	authenticated,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	MINI_TYPES,
+	ResponseBuilder,
+	serialize,
+} from '../index';
+
+class UserDto {
+	@IsString()
+	name!: string;
+
+	@IsEmail()
+	email!: string;
+
+	@IsString()
+	@Exclude()
+	passwordHash!: string;
+
+	@Expose({ groups: ['admin'] })
+	lastLoginIp!: string;
+}
+
+const user = {
+	name: 'Ada',
+	email: 'ada@example.com',
+	passwordHash: 'secret-hash',
+	lastLoginIp: '10.0.0.1',
+};
+
+@controller('/users')
+@serialize(UserDto)
+class UsersController extends Controller {
+	@get('/me')
+	me() {
+		return user;
+	}
+
+	@get('/')
+	list() {
+		return [user, { ...user, name: 'Grace' }];
+	}
+
+	@get('/admin')
+	@serialize(UserDto, { groups: ['admin'] })
+	admin() {
+		return user;
+	}
+
+	@get('/by-role')
+	@authenticated('roles')
+	@serialize(UserDto, { rolesAsGroups: true })
+	byRole() {
+		return user;
+	}
+
+	@get('/created')
+	created() {
+		return new ResponseBuilder().created(user);
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IAuthStrategy).toConstantValue({
+		name: 'roles',
+		securityScheme: { type: 'apiKey', in: 'header', name: 'x-roles' },
+		authenticate: (req: any) => ({
+			permissions: [],
+			roles: String(req.headers['x-roles'] ?? '').split(',').filter(Boolean),
+		}),
+	});
+	container.bind(MINI_TYPES.IController).to(UsersController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Serialization Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('@serialize', () => {
+	it('strips @Exclude fields and group-only fields by default', async () => {
+		const res_ = await request(app).get('/users/me');
+		expect(res_.body).toEqual({ name: 'Ada', email: 'ada@example.com' });
+	});
+
+	it('serializes arrays', async () => {
+		const res_ = await request(app).get('/users');
+		expect(res_.body).toEqual([
+			{ name: 'Ada', email: 'ada@example.com' },
+			{ name: 'Grace', email: 'ada@example.com' },
+		]);
+	});
+
+	it('exposes grouped fields for the requested groups', async () => {
+		const res_ = await request(app).get('/users/admin');
+		expect(res_.body).toEqual({
+			name: 'Ada',
+			email: 'ada@example.com',
+			lastLoginIp: '10.0.0.1',
+		});
+	});
+
+	it('selects groups from the authenticated user roles', async () => {
+		const admin = await request(app).get('/users/by-role').set('x-roles', 'admin');
+		expect(admin.body.lastLoginIp).toBe('10.0.0.1');
+
+		const member = await request(app).get('/users/by-role').set('x-roles', 'member');
+		expect(member.body.lastLoginIp).toBeUndefined();
+		expect(member.body.passwordHash).toBeUndefined();
+	});
+
+	it('serializes ResponseBuilder data', async () => {
+		const res_ = await request(app).get('/users/created');
+		expect(res_.status).toBe(201);
+		expect(res_.body).toEqual({ name: 'Ada', email: 'ada@example.com' });
+	});
+
+	it('uses the output DTO as the Swagger response schema', async () => {
+		const res_ = await request(app).get('/api-docs.json');
+		const spec = res_.body;
+		const schema =
+			spec.paths['/users/me'].get.responses['200'].content['application/json']
+				.schema;
+		expect(schema).toEqual({ $ref: '#/components/schemas/UserDtoResponse' });
+		const output = spec.components.schemas.UserDtoResponse;
+		expect(Object.keys(output.properties).sort()).toEqual([
+			'email',
+			'lastLoginIp',
+			'name',
+		]);
+		expect(spec.components.schemas.UserDto.properties.passwordHash).toBeDefined();
+	});
+});
@@ -0,0 +1,229 @@
+// __tests__/sse.test.ts
+import 'reflect-metadata';
+import express, { Express } from 'express';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import {
+	authenticated,
+	authorized,
+	container,
+	controller,
+	Controller,
+	formatSseEvent,
+	IApp,
+	IObservableLike,
+	lastEventId,
+	MINI_TYPES,
+	NotFoundException,
+	sendServerSentEvents,
+	sse,
+} from '../index';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+let streamClosed = false;
+
+@controller('/events')
+class EventsController extends Controller {
+	@sse('/numbers')
+	async *numbers(@lastEventId() lastId?: string) {
+		const start = lastId ? Number(lastId) + 1 : 1;
+		for (let i = start; i <= 3; i++) yield { id: i, event: 'number', data: { i } };
+	}
+
+	@sse('/plain')
+	plain() {
+		return ['hello', 'multi\nline'];
+	}
+
+	@sse('/slow', undefined, { heartbeat: 10 })
+	async *slow() {
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		yield 'done';
+	}
+
+	@sse('/observable')
+	observable(): IObservableLike<number> {
+		return {
+			subscribe(observer) {
+				let i = 0;
+				const timer = setInterval(() => {
+					if (++i > 2) {
+						clearInterval(timer);
+						observer.complete();
+					} else observer.next(i);
+				}, 1);
+				return { unsubscribe: () => clearInterval(timer) };
+			},
+		};
+	}
+
+	@sse('/failing')
+	async *failing() {
+		yield 'first';
+		throw new NotFoundException({ message: 'Feed not found' });
+	}
+
+	@sse('/infinite')
+	async *infinite() {
+		try {
+			for (;;) {
+				yield 'tick';
+				await tick();
+			}
+		} finally {
+			streamClosed = true;
+		}
+	}
+
+	@sse('/private')
+	@authenticated()
+	@authorized('events.read')
+	async *private() {
+		yield 'secret';
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(EventsController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'SSE Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('formatSseEvent', () => {
+	it('serializes fields and splits multi-line data', () => {
+		expect(formatSseEvent({ id: 7, event: 'update', retry: 1000, data: { a: 1 } })).toBe(
+			'id: 7\nevent: update\nretry: 1000\ndata: {"a":1}\n\n'
+		);
+		expect(formatSseEvent('a\nb')).toBe('data: a\ndata: b\n\n');
+	});
+});
+
+describe('@sse', () => {
+	it('streams events with SSE headers', async () => {
+		const res_ = await request(app).get('/events/numbers');
+		expect(res_.status).toBe(200);
+		expect(res_.headers['content-type']).toBe('text/event-stream; charset=utf-8');
+		expect(res_.headers['cache-control']).toBe('no-cache, no-transform');
+		expect(res_.text).toBe(
+			[1, 2, 3].map((i) => `id: ${i}\nevent: number\ndata: {"i":${i}}\n\n`).join('')
+		);
+	});
+
+	it('wraps plain values and iterables', async () => {
+		const res_ = await request(app).get('/events/plain');
+		expect(res_.text).toBe('data: hello\n\ndata: multi\ndata: line\n\n');
+	});
+
+	it('resumes from Last-Event-ID', async () => {
+		const res_ = await request(app).get('/events/numbers').set('Last-Event-ID', '2');
+		expect(res_.text).toBe('id: 3\nevent: number\ndata: {"i":3}\n\n');
+	});
+
+	it('sends heartbeats while waiting for events', async () => {
+		const res_ = await request(app).get('/events/slow');
+		expect(res_.text).toContain(': heartbeat\n\n');
+		expect(res_.text.endsWith('data: done\n\n')).toBe(true);
+	});
+
+	it('accepts observables', async () => {
+		const res_ = await request(app).get('/events/observable');
+		expect(res_.text).toBe('data: 1\n\ndata: 2\n\n');
+	});
+
+	it('emits an error event when the source fails', async () => {
+		const res_ = await request(app).get('/events/failing');
+		expect(res_.text).toBe(
+			'data: first\n\nevent: error\ndata: {"message":"Feed not found"}\n\n'
+		);
+	});
+
+	it('runs auth middlewares before streaming', async () => {
+		const anonymous = await request(app).get('/events/private');
+		expect(anonymous.status).toBe(401);
+
+		const forbidden = await request(app)
+			.get('/events/private')
+			.set('x-authenticated', 'true');
+		expect(forbidden.status).toBe(403);
+
+		const allowed = await request(app)
+			.get('/events/private')
+			.set('x-authenticated', 'true')
+			.set('x-user-permissions', 'events.read');
+		expect(allowed.text).toBe('data: secret\n\n');
+	});
+
+	it('closes the source when the client disconnects', async () => {
+		const server = http.createServer(app).listen(0);
+		await new Promise((resolve) => server.once('listening', resolve));
+		const { port } = server.address() as AddressInfo;
+
+		await new Promise<void>((resolve, reject) => {
+			const req_ = http.get(`http://127.0.0.1:${port}/events/infinite`, (res_) => {
+				res_.once('data', () => {
+					req_.destroy();
+					resolve();
+				});
+			});
+			req_.on('error', reject);
+		});
+		for (let i = 0; i < 50 && !streamClosed; i++) await tick();
+		await new Promise((resolve) => server.close(resolve));
+		expect(streamClosed).toBe(true);
+	});
+
+	it('releases an observable source when the client disconnects', async () => {
+		let unsubscribed = false;
+		let settled = false;
+		const silent: IObservableLike<string> = {
+			subscribe(observer) {
+				observer.next('first');
+				return { unsubscribe: () => (unsubscribed = true) };
+			},
+		};
+		const streamApp = express().get('/', (_req, res_) => {
+			void sendServerSentEvents(res_, silent, { heartbeat: 0 }).then(
+				() => (settled = true)
+			);
+		});
+		const server = http.createServer(streamApp).listen(0);
+		try {
+			await new Promise((resolve) => server.once('listening', resolve));
+			const { port } = server.address() as AddressInfo;
+
+			await new Promise<void>((resolve, reject) => {
+				const req_ = http.get(`http://127.0.0.1:${port}/`, (res_) => {
+					res_.once('data', () => {
+						req_.destroy();
+						resolve();
+					});
+				});
+				req_.on('error', reject);
+			});
+			for (let i = 0; i < 50 && !settled; i++) await tick();
+		} finally {
+			await new Promise((resolve) => server.close(resolve));
+		}
+		expect(unsubscribed).toBe(true);
+		expect(settled).toBe(true);
+	});
+
+	it('documents the route as text/event-stream', async () => {
+		const spec = (await request(app).get('/api-docs.json')).body;
+		const operation = spec.paths['/events/numbers'].get;
+		expect(operation.responses['200'].content['text/event-stream']).toBeDefined();
+		expect(operation.parameters).toContainEqual(
+			expect.objectContaining({ name: 'Last-Event-ID', in: 'header' })
+		);
+	});
+});
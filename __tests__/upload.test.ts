@@ -0,0 +1,309 @@
+// __tests__/upload.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IsNotEmpty, IsString } from 'class-validator';
+import {
+	authenticated,
+	container,
+	controller,
+	Controller,
+	file,
+	files,
+	IApp,
+	IUploadedFile,
+	MINI_TYPES,
+	body,
+	post,
+	upload,
+	validate,
+} from '../index';
+
+const uploadDir = mkdtempSync(join(tmpdir(), 'mini-uploads-'));
+
+class AvatarDto {
+	@IsString()
+	@IsNotEmpty()
+	title!: string;
+}
+
+const describeFile = (item?: IUploadedFile) =>
+	item && {
+		fieldName: item.fieldName,
+		originalName: item.originalName,
+		mimeType: item.mimeType,
+		size: item.size,
+		content: item.buffer?.toString() ?? (item.path && readFileSync(item.path, 'utf8')),
+		onDisk: !!item.path,
+	};
+
+@controller('/uploads')
+class UploadController extends Controller {
+	@post('/avatar')
+	@upload('avatar', { maxSize: 10, mimeTypes: ['image/*'], required: true })
+	@validate({ body: AvatarDto })
+	avatar(@file() avatar: IUploadedFile, @body() dto: AvatarDto) {
+		return { file: describeFile(avatar), title: dto.title };
+	}
+
+	@post('/unwritable')
+	@upload('document', { storage: 'disk', destination: join(uploadDir, 'missing', 'dir') })
+	unwritable(@file() document: IUploadedFile) {
+		return describeFile(document);
+	}
+
+	@post('/private')
+	@authenticated()
+	@upload('document', { storage: 'disk', destination: uploadDir })
+	privateUpload(@file() document: IUploadedFile) {
+		return describeFile(document);
+	}
+
+	@post('/reports')
+	@upload('report', {
+		storage: 'disk',
+		destination: uploadDir,
+		maxFields: 2,
+		maxFieldSize: 10,
+	})
+	@validate({ body: AvatarDto })
+	report(@file() report: IUploadedFile) {
+		return describeFile(report);
+	}
+
+	@post('/pair')
+	@upload('front')
+	@upload('back')
+	pair(@file('front') front: IUploadedFile, @file('back') back: IUploadedFile) {
+		return { front: describeFile(front), back: describeFile(back) };
+	}
+
+	@post('/documents')
+	@upload('documents', { maxFiles: 2, storage: 'disk', destination: uploadDir })
+	@upload('cover')
+	documents(@files('documents') documents: IUploadedFile[], @file('cover') cover?: IUploadedFile) {
+		return { documents: documents.map(describeFile), cover: describeFile(cover) ?? null };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(UploadController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Upload Application',
+		logger: false,
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+	rmSync(uploadDir, { recursive: true, force: true });
+});
+
+describe('@upload', () => {
+	it('parses files into memory and validates form fields', async () => {
+		const res_ = await request(app)
+			.post('/uploads/avatar')
+			.field('title', 'Me')
+			.attach('avatar', Buffer.from('png-bytes'), {
+				filename: 'me.png',
+				contentType: 'image/png',
+			});
+		expect(res_.status).toBe(200);
+		expect(res_.body).toEqual({
+			title: 'Me',
+			file: {
+				fieldName: 'avatar',
+				originalName: 'me.png',
+				mimeType: 'image/png',
+				size: 9,
+				content: 'png-bytes',
+				onDisk: false,
+			},
+		});
+	});
+
+	it('rejects invalid form fields through @validate', async () => {
+		const res_ = await request(app)
+			.post('/uploads/avatar')
+			.attach('avatar', Buffer.from('png'), { filename: 'me.png', contentType: 'image/png' });
+		expect(res_.status).toBe(400);
+		expect(res_.body.validationErrors).toEqual([
+			expect.objectContaining({ field: 'title', source: 'body' }),
+		]);
+	});
+
+	it('enforces size, type, count and required limits', async () => {
+		const tooLarge = await request(app)
+			.post('/uploads/avatar')
+			.field('title', 'Me')
+			.attach('avatar', Buffer.alloc(11), { filename: 'big.png', contentType: 'image/png' });
+		expect(tooLarge.status).toBe(413);
+		expect(tooLarge.body).toEqual({ message: 'File too large: avatar' });
+
+		const wrongType = await request(app)
+			.post('/uploads/avatar')
+			.field('title', 'Me')
+			.attach('avatar', Buffer.from('x'), { filename: 'a.txt', contentType: 'text/plain' });
+		expect(wrongType.status).toBe(415);
+
+		const missing = await request(app).post('/uploads/avatar').field('title', 'Me');
+		expect(missing.status).toBe(400);
+		expect(missing.body).toEqual({ message: 'File is required: avatar' });
+
+		const tooMany = await request(app)
+			.post('/uploads/documents')
+			.attach('documents', Buffer.from('1'), 'a.txt')
+			.attach('documents', Buffer.from('2'), 'b.txt')
+			.attach('documents', Buffer.from('3'), 'c.txt');
+		expect(tooMany.status).toBe(413);
+
+		// maxSize verilmeyen memory alanları varsayılan 10 MB ile sınırlıdır
+		const unbounded = await request(app)
+			.post('/uploads/documents')
+			.attach('cover', Buffer.alloc(10 * 1024 * 1024 + 1), 'cover.bin');
+		expect(unbounded.status).toBe(413);
+		expect(unbounded.body).toEqual({ message: 'File too large: cover' });
+
+		const unexpected = await request(app)
+			.post('/uploads/documents')
+			.attach('other', Buffer.from('1'), 'a.txt');
+		expect(unexpected.status).toBe(400);
+		expect(unexpected.body).toEqual({ message: 'Unexpected file field: other' });
+	});
+
+	it('requires a multipart body', async () => {
+		const res_ = await request(app).post('/uploads/avatar').send({ title: 'Me' });
+		expect(res_.status).toBe(415);
+	});
+
+	it('streams files to disk and supports multiple fields', async () => {
+		const res_ = await request(app)
+			.post('/uploads/documents')
+			.attach('documents', Buffer.from('first'), 'a.txt')
+			.attach('documents', Buffer.from('second'), 'b.txt')
+			.attach('cover', Buffer.from('cover'), 'cover.txt');
+		expect(res_.status).toBe(200);
+		expect(res_.body.documents.map((d: any) => [d.originalName, d.content, d.onDisk])).toEqual([
+			['a.txt', 'first', true],
+			['b.txt', 'second', true],
+		]);
+		expect(res_.body.cover).toMatchObject({ content: 'cover', onDisk: false });
+		expect(readdirSync(uploadDir)).toHaveLength(2);
+	});
+
+	it('resolves several @file parameters on one handler', async () => {
+		const res_ = await request(app)
+			.post('/uploads/pair')
+			.attach('front', Buffer.from('front side'), 'front.txt')
+			.attach('back', Buffer.from('back side'), 'back.txt');
+		expect(res_.status).toBe(200);
+		expect(res_.body.front).toMatchObject({ originalName: 'front.txt', content: 'front side' });
+		expect(res_.body.back).toMatchObject({ originalName: 'back.txt', content: 'back side' });
+	});
+
+	it('removes partially written files when the upload fails', async () => {
+		const before = readdirSync(uploadDir);
+		const res_ = await request(app)
+			.post('/uploads/documents')
+			.attach('documents', Buffer.from('1'), 'a.txt')
+			.attach('nope', Buffer.from('2'), 'b.txt');
+		expect(res_.status).toBe(400);
+		const added = () => readdirSync(uploadDir).filter((name) => !before.includes(name));
+		for (let i = 0; i < 50 && added().length; i++)
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		expect(added()).toEqual([]);
+	});
+
+	it('does not read files before authentication', async () => {
+		const before = readdirSync(uploadDir);
+		const res_ = await request(app)
+			.post('/uploads/private')
+			.attach('document', Buffer.from('secret'), 'a.txt');
+		expect(res_.status).toBe(401);
+		expect(readdirSync(uploadDir).filter((name) => !before.includes(name))).toEqual([]);
+	});
+
+	it('removes stored files when the request fails before the handler', async () => {
+		const before = readdirSync(uploadDir);
+		const res_ = await request(app)
+			.post('/uploads/reports')
+			.attach('report', Buffer.from('data'), 'r.txt');
+		expect(res_.status).toBe(400);
+		expect(res_.body.validationErrors).toEqual([
+			expect.objectContaining({ field: 'title', source: 'body' }),
+		]);
+		const added = () => readdirSync(uploadDir).filter((name) => !before.includes(name));
+		for (let i = 0; i < 50 && added().length; i++)
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		expect(added()).toEqual([]);
+
+		const ok = await request(app)
+			.post('/uploads/reports')
+			.field('title', 'Q1')
+			.attach('report', Buffer.from('data'), 'r.txt');
+		expect(ok.status).toBe(200);
+		expect(ok.body).toMatchObject({ content: 'data', onDisk: true });
+	});
+
+	it('limits form fields', async () => {
+		const tooLong = await request(app)
+			.post('/uploads/reports')
+			.field('title', 'x'.repeat(11))
+			.attach('report', Buffer.from('data'), 'r.txt');
+		expect(tooLong.status).toBe(413);
+		expect(tooLong.body).toEqual({ message: 'Field too large: title' });
+
+		const tooMany = await request(app)
+			.post('/uploads/reports')
+			.field('a', '1')
+			.field('b', '2')
+			.field('c', '3')
+			.attach('report', Buffer.from('data'), 'r.txt');
+		expect(tooMany.status).toBe(413);
+		expect(tooMany.body).toEqual({ message: 'Too many form fields' });
+	});
+
+	it('answers with an error when the destination cannot be written', async () => {
+		const res_ = await request(app)
+			.post('/uploads/unwritable')
+			.attach('document', Buffer.alloc(200 * 1024, 1), 'big.bin');
+		expect(res_.status).toBe(500);
+		expect(res_.body.message).toBe('Could not store file: document');
+		// Sunucu ayakta kalmalı
+		expect((await request(app).post('/uploads/avatar').send({})).status).toBe(415);
+	});
+
+	it('documents multipart request bodies', async () => {
+		const spec = (await request(app).get('/api-docs.json')).body;
+		const schema =
+			spec.paths['/uploads/avatar'].post.requestBody.content['multipart/form-data'].schema;
+		expect(schema.allOf[0]).toEqual({ $ref: '#/components/schemas/AvatarDto' });
+		expect(schema.allOf[1]).toEqual({
+			type: 'object',
+			properties: { avatar: { type: 'string', format: 'binary' } },
+			required: ['avatar'],
+		});
+		const documents =
+			spec.paths['/uploads/documents'].post.requestBody.content['multipart/form-data'].schema;
+		expect(documents.properties.documents.type).toBe('array');
+
+		const collection = (await request(app).get('/postman.json')).body;
+		const item = collection.item[0].item.find((i: any) =>
+			i.request.url.raw.endsWith('/uploads/avatar')
+		);
+		expect(item.request.body).toEqual({
+			mode: 'formdata',
+			formdata: [
+				{ key: 'title', type: 'text', value: '' },
+				{ key: 'avatar', type: 'file', src: [] },
+			],
+		});
+		expect(item.request.header.map((h: any) => h.key)).not.toContain('Content-Type');
+	});
+});
@@ -0,0 +1,138 @@
+// __tests__/validation-errors.test.ts
+import 'reflect-metadata';
+import { Express } from 'express';
+import request from 'supertest';
+import { Type } from 'class-transformer';
+import {
+	IsInt,
+	IsPositive,
+	IsString,
+	Min,
+	ValidateNested,
+} from 'class-validator';
+import {
+	BadRequestException,
+	body,
+	catchError,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	IExceptionFilter,
+	injectable,
+	MINI_TYPES,
+	post,
+	query,
+	UnprocessableEntityException,
+	validate,
+} from '../index';
+
+class AddressDto {
+	@IsString()
+	city!: string;
+}
+
+class OrderItemDto {
+	@IsString()
+	sku!: string;
+
+	@IsPositive()
+	price!: number;
+}
+
+class CreateOrderDto {
+	@IsString()
+	customer!: string;
+
+	@ValidateNested()
+	@Type(() => AddressDto)
+	address!: AddressDto;
+
+	@ValidateNested({ each: true })
+	@Type(() => OrderItemDto)
+	items!: OrderItemDto[];
+}
+
+class PageQuery {
+	@IsInt()
+	@Min(1)
+	page!: number;
+}
+
+/** Doğrulama hatalarını 422'ye çeviren örnek filtre */
+@injectable()
+@catchError(BadRequestException)
+class UnprocessableFilter implements IExceptionFilter<BadRequestException> {
+	catch(error: BadRequestException) {
+		if (!error.messageJson.validationErrors) return undefined;
+		return new UnprocessableEntityException(error.messageJson);
+	}
+}
+
+@controller('/orders')
+class OrdersController extends Controller {
+	@post('/')
+	@validate({ body: CreateOrderDto })
+	create(@body() dto: CreateOrderDto) {
+		return dto;
+	}
+
+	@get('/')
+	@validate({ query: PageQuery })
+	list(@query() q: PageQuery) {
+		return q;
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(OrdersController);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Validation Application',
+		logger: false,
+		exceptionFilters: [UnprocessableFilter],
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('Structured validation errors', () => {
+	it('reports nested objects and array items with dotted paths', async () => {
+		const res_ = await request(app)
+			.post('/orders')
+			.send({
+				customer: 'Ada',
+				address: {},
+				items: [
+					{ sku: 'a', price: 1 },
+					{ sku: 'b', price: 2 },
+					{ sku: 'c', price: -5 },
+				],
+			});
+		expect(res_.status).toBe(422);
+		expect(res_.body.message).toBe('Validation error');
+		expect(res_.body.validationErrors).toEqual([
+			{ field: 'address.city', errors: [expect.any(String)], source: 'body' },
+			{ field: 'items[2].price', errors: [expect.any(String)], source: 'body' },
+		]);
+	});
+
+	it('marks the source of query errors', async () => {
+		const res_ = await request(app).get('/orders').query({ page: 0 });
+		expect(res_.status).toBe(422);
+		expect(res_.body.validationErrors).toEqual([
+			{ field: 'page', errors: [expect.any(String)], source: 'query' },
+		]);
+	});
+
+	it('passes valid payloads through', async () => {
+		const res_ = await request(app).get('/orders').query({ page: 2 });
+		expect(res_.status).toBe(200);
+		expect(res_.body).toEqual({ page: 2 });
+	});
+});
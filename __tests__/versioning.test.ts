@@ -0,0 +1,178 @@
+// __tests__/versioning.test.ts
+import 'reflect-metadata';
+import express, { Express } from 'express';
+import request from 'supertest';
+import {
+	buildApp,
+	container,
+	controller,
+	Controller,
+	get,
+	IApp,
+	MINI_TYPES,
+	param,
+	post,
+	requestVersion,
+	SwaggerIntegration,
+	version,
+} from '../index';
+
+@controller('/cats')
+class CatsV1Controller extends Controller {
+	@get('/')
+	list() {
+		return { version: '1' };
+	}
+
+	@get('/:id')
+	@version('1', '2')
+	byId(@param('id') id: string) {
+		return { id, shared: true };
+	}
+}
+
+@controller('/cats')
+@version('2')
+class CatsV2Controller extends Controller {
+	@get('/')
+	list() {
+		return { version: '2' };
+	}
+
+	@post('/')
+	create() {
+		return { created: true };
+	}
+}
+
+@controller('/health')
+class HealthController extends Controller {
+	@get('/')
+	check() {
+		return { ok: true };
+	}
+}
+
+const appFromContainer: IApp = container.get(MINI_TYPES.IApp);
+let app!: Express;
+beforeAll(async () => {
+	container.bind(MINI_TYPES.IController).to(CatsV1Controller);
+	container.bind(MINI_TYPES.IController).to(CatsV2Controller);
+	app = await appFromContainer.build({
+		host: 'localhost',
+		port: 3000,
+		applicationName: 'Versioning Application',
+		logger: false,
+		versioning: { type: 'uri', defaultVersion: '1' },
+	});
+});
+afterAll(async () => {
+	await appFromContainer.close();
+});
+
+describe('API versioning', () => {
+	it('prefixes routes with their version in the uri strategy', async () => {
+		expect((await request(app).get('/v1/cats')).body).toEqual({ version: '1' });
+		expect((await request(app).get('/v2/cats')).body).toEqual({ version: '2' });
+		expect((await request(app).get('/v2/cats/7')).body).toEqual({ id: '7', shared: true });
+		expect((await request(app).get('/v1/cats/7')).body).toEqual({ id: '7', shared: true });
+		expect((await request(app).get('/cats')).status).toBe(404);
+	});
+
+	it('keeps 405 responses per version', async () => {
+		const res_ = await request(app).post('/v1/cats');
+		expect(res_.status).toBe(405);
+		expect(res_.headers.allow).toBe('GET, HEAD');
+		expect((await request(app).post('/v2/cats')).body).toEqual({ created: true });
+	});
+
+	it('selects routes by header or media type', async () => {
+		const controllers = [
+			new CatsV1Controller(),
+			new CatsV2Controller(),
+			new HealthController(),
+		];
+		const byHeader = buildApp(express(), controllers, {
+			versioning: { type: 'header', header: 'X-API-Version', defaultVersion: '1' },
+		});
+		expect((await request(byHeader).get('/cats').set('X-API-Version', '2')).body).toEqual({
+			version: '2',
+		});
+		expect((await request(byHeader).get('/cats').set('X-API-Version', '1')).body).toEqual({
+			version: '1',
+		});
+		expect((await request(byHeader).get('/cats').set('X-API-Version', '3')).status).toBe(404);
+		expect((await request(byHeader).get('/cats')).body).toEqual({ version: '1' });
+		expect((await request(byHeader).get('/health')).body).toEqual({ ok: true });
+		expect((await request(byHeader).get('/health').set('X-API-Version', '2')).status).toBe(
+			404
+		);
+
+		const byMediaType = buildApp(express(), controllers, {
+			versioning: { type: 'media-type', defaultVersion: '1' },
+		});
+		expect(
+			(await request(byMediaType).get('/cats').set('Accept', 'application/json;v=2')).body
+		).toEqual({ version: '2' });
+		expect((await request(byMediaType).get('/cats')).body).toEqual({ version: '1' });
+
+		// defaultVersion yoksa @version'suz route'lar her version'a cevap verir
+		const neutral = buildApp(express(), [new HealthController()], {
+			versioning: { type: 'header' },
+		});
+		expect((await request(neutral).get('/health').set('Accept-Version', '9')).body).toEqual({
+			ok: true,
+		});
+	});
+
+	it('reads the requested version', () => {
+		expect(
+			requestVersion({ accept: 'text/html, application/json; v="3"' }, { type: 'media-type' })
+		).toBe('3');
+		expect(requestVersion({}, { type: 'header', defaultVersion: '1' })).toBe('1');
+		expect(requestVersion({ 'accept-version': '2' }, { type: 'header' })).toBe('2');
+	});
+
+	it('generates one Swagger spec per version', async () => {
+		const defaultSpec = (await request(app).get('/api-docs.json')).body;
+		expect(defaultSpec.info.version).toBe('1');
+		expect(Object.keys(defaultSpec.paths).sort()).toEqual(['/v1/cats/', '/v1/cats/{id}']);
+
+		const v2 = (await request(app).get('/api-docs-v2.json')).body;
+		expect(v2.info.version).toBe('2');
+		expect(Object.keys(v2.paths).sort()).toEqual(['/v2/cats/', '/v2/cats/{id}']);
+		expect(v2.paths['/v2/cats/'].post).toBeDefined();
+
+		const init = await request(app).get('/api-docs/swagger-ui-init.js');
+		expect(init.text).toContain('/api-docs-v1.json');
+		expect(init.text).toContain('/api-docs-v2.json');
+		expect(init.text).toContain('"urls.primaryName": "v1"');
+	});
+
+	it('documents the version header in the header strategy', () => {
+		const swagger = new SwaggerIntegration({ versioning: { type: 'header' } });
+		swagger.generateSwaggerSpec([new CatsV1Controller(), new CatsV2Controller()]);
+		expect(swagger.getSwaggerSpec('2').paths['/cats/'].get.parameters).toContainEqual({
+			name: 'Accept-Version',
+			in: 'header',
+			required: true,
+			schema: { type: 'string', enum: ['2'], default: '2' },
+		});
+		expect(swagger.getSwaggerSpec('1').paths['/cats/'].post).toBeUndefined();
+	});
+
+	it('lists every version in the Postman collection', async () => {
+		const collection = (await request(app).get('/postman.json')).body;
+		const raws = collection.item
+			.flatMap((folder: any) => folder.item)
+			.map((item: any) => item.request.url.raw);
+		expect(raws).toEqual(
+			expect.arrayContaining([
+				'{{baseUrl}}/v1/cats/',
+				'{{baseUrl}}/v1/cats/{{id}}',
+				'{{baseUrl}}/v2/cats/{{id}}',
+				'{{baseUrl}}/v2/cats/',
+			])
+		);
+	});
+});
@@ -1,12 +1,17 @@
 import 'reflect-metadata';
 import { Express, NextFunction, Request, Response } from 'express';
+import { validationMetadatasToSchemas } from 'class-validator-jsonschema';
 import { ISwaggerBasicAuth } from '../interfaces/config.interface';
 import {
+	getRouteOptions,
+	getRouteProperties,
 	IRequestResponseExample,
 	keyOfPath,
-	keyOfRouteOptions,
 	RouteOptions,
 } from '../notations';
+import { documentedMethods } from '../utils/http-methods';
+import { routeVersions, versionedPath, versionHeaders } from '../utils/versioning';
+import type { IVersioningOptions } from '../interfaces/versioning.interface';
 
 type PostmanScript = {
 	type: 'text/javascript';
@@ -41,21 +46,30 @@ type PostmanUrl = {
 	variable?: PostmanVariable[];
 };
 
+type PostmanFormDataItem =
+	| { key: string; type: 'text'; value: string }
+	| { key: string; type: 'file'; src: string[] };
+
 type PostmanRequest = {
 	method: string;
 	header: PostmanHeader[];
 	url: PostmanUrl;
 	description?: string;
-	body?: {
-		mode: 'raw';
-		raw: string;
-		options: {
-			raw: {
-				language: 'json';
-				examples?: unknown[];
-			};
-		};
-	};
+	body?:
+		| {
+				mode: 'raw';
+				raw: string;
+				options: {
+					raw: {
+						language: 'json';
+						examples?: unknown[];
+					};
+				};
+		  }
+		| {
+				mode: 'formdata';
+				formdata: PostmanFormDataItem[];
+		  };
 };
 
 type PostmanResponse = {
@@ -100,6 +114,7 @@ export interface IPostmanIntegrationOptions {
 	jsonPath?: string;
 	basicAuth?: ISwaggerBasicAuth;
 	baseUrlVariableName?: string;
+	versioning?: IVersioningOptions;
 }
 
 export class PostmanIntegration {
@@ -134,33 +149,45 @@ export class PostmanIntegration {
 			if (!controllerPath) return;
 
 			const folderName = this.extractControllerFolderName(controllerPath);
-			const allProperties = Object.getOwnPropertyNames(controllerPrototype);
+			const allProperties = getRouteProperties(controllerPrototype);
 
 			allProperties.forEach((property) => {
-				const routeOptions = Reflect.getMetadata(
-					keyOfRouteOptions,
-					controllerPrototype,
-					property,
-				) as RouteOptions | undefined;
+				const routeOptions = getRouteOptions(controllerPrototype, property);
 
 				if (!routeOptions?.path || !routeOptions.method) return;
 
-				const fullPath =
-					controllerPath.replace(/\/$/, '') +
-					routeOptions.path.replace(/:([a-zA-Z0-9_]+)/g, '{{$1}}');
-				const method = routeOptions.method.toUpperCase();
-
-				const requestItem = this.buildRequestItem(
-					method,
-					fullPath,
-					routeOptions,
-					baseUrlVariableName,
-				);
+				const expanded = routeOptions.method === 'all';
+				const versioning = this.options.versioning;
 
 				if (!folders.has(folderName)) {
 					folders.set(folderName, []);
 				}
-				folders.get(folderName)!.push(requestItem);
+				// Versioned route'lar her version için ayrı istek olur
+				for (const version of routeVersions(routeOptions.versions, versioning) ?? [
+					undefined,
+				]) {
+					const fullPath = versionedPath(
+						controllerPath.replace(/\/$/, '') + routeOptions.path,
+						version,
+						versioning,
+					).replace(/:([a-zA-Z0-9_]+)/g, '{{$1}}');
+					// Postman'da ALL yok; @all route'u her standart method için ayrı istek olur
+					for (const documented of documentedMethods(routeOptions.method)) {
+						const method = documented.toUpperCase();
+						const requestItem = this.buildRequestItem(
+							method,
+							fullPath,
+							routeOptions,
+							baseUrlVariableName,
+						);
+						if (expanded) requestItem.name = `${requestItem.name} (${method})`;
+						if (version !== undefined) {
+							requestItem.name = `${requestItem.name} (v${version})`;
+							this.applyVersionHeaders(requestItem.request, version);
+						}
+						folders.get(folderName)!.push(requestItem);
+					}
+				}
 			});
 		});
 
@@ -228,6 +255,33 @@ export class PostmanIntegration {
 		};
 	}
 
+	/** Dosya alanları file, body DTO'su ya da örnekteki alanlar text olarak eklenir */
+	private buildFormData(
+		routeOptions: RouteOptions,
+		bodyPayload: unknown
+	): PostmanFormDataItem[] {
+		const values = this.isRecord(bodyPayload) ? bodyPayload : {};
+		const bodyValidation = routeOptions.validations?.find((v) => v.body);
+		const dtoFields = bodyValidation
+			? Object.keys(
+					validationMetadatasToSchemas()[bodyValidation.body.name]?.properties ?? {}
+				)
+			: [];
+		const textFields = Array.from(new Set([...dtoFields, ...Object.keys(values)]));
+		return [
+			...textFields.map((key) => ({
+				key,
+				type: 'text' as const,
+				value: this.stringifyScalar(values[key]),
+			})),
+			...(routeOptions.uploads ?? []).map((upload) => ({
+				key: upload.field,
+				type: 'file' as const,
+				src: [],
+			})),
+		];
+	}
+
 	private buildRequest(
 		method: string,
 		fullPath: string,
@@ -236,9 +290,14 @@ export class PostmanIntegration {
 		example: IRequestResponseExample | undefined,
 		examples: IRequestResponseExample[],
 	): PostmanRequest {
+		// multipart boundary'si Postman tarafından eklenir
+		const isUpload = !!routeOptions.uploads?.length;
 		const headers: PostmanHeader[] = [
-			{ key: 'Content-Type', value: 'application/json' },
-			{ key: 'Accept', value: 'application/json' },
+			...(isUpload ? [] : [{ key: 'Content-Type', value: 'application/json' }]),
+			{
+				key: 'Accept',
+				value: routeOptions.sse ? 'text/event-stream' : 'application/json',
+			},
 		];
 
 		if (example?.request?.headers && this.isRecord(example.request.headers)) {
@@ -265,8 +324,14 @@ export class PostmanIntegration {
 			description: this.generateDescription(method.toLowerCase(), fullPath),
 		};
 
-		const bodyPayload = example?.request?.body;
-		if (bodyPayload) {
+		// HEAD isteği gövde taşımaz
+		const bodyPayload = method === 'HEAD' ? undefined : example?.request?.body;
+		if (isUpload) {
+			request.body = {
+				mode: 'formdata',
+				formdata: this.buildFormData(routeOptions, bodyPayload),
+			};
+		} else if (bodyPayload) {
 			const bodyExamples = this.extractBodyExamples(examples);
 
 			request.body = {
@@ -299,6 +364,19 @@ export class PostmanIntegration {
 		return request;
 	}
 
+	/** header/media-type versioning'de version'ı taşıyan header'ları ekler */
+	private applyVersionHeaders(request: PostmanRequest, version: string) {
+		for (const [key, value] of Object.entries(
+			versionHeaders(version, this.options.versioning),
+		)) {
+			const existing = request.header.find(
+				(header) => header.key.toLowerCase() === key.toLowerCase(),
+			);
+			if (existing) existing.value = value;
+			else request.header.push({ key, value });
+		}
+	}
+
 	private extractBodyExamples(examples: IRequestResponseExample[]): unknown[] {
 		return examples
 			.map((item) => item.request?.body)
@@ -361,7 +439,17 @@ export class PostmanIntegration {
 				request,
 			),
 		);
-		if (routeOptions.permissions && routeOptions.permissions.length > 0) {
+		if (routeOptions.authenticated) {
+			responses.push(
+				this.createDefaultResponse(
+					401,
+					'Unauthorized',
+					{ message: 'Unauthorized' },
+					request,
+				),
+			);
+		}
+		if (routeOptions.permissions?.length || routeOptions.policies?.length) {
 			responses.push(
 				this.createDefaultResponse(
 					403,
@@ -1,18 +1,49 @@
 import 'reflect-metadata';
 import swaggerUi from 'swagger-ui-express';
 import { Express, Request, Response, NextFunction } from 'express';
-import { keyOfPath, keyOfRouteOptions, RouteOptions } from '../notations';
+import {
+	CustomParameter,
+	getRouteOptions,
+	getRouteProperties,
+	keyOfCustomParams,
+	keyOfPath,
+	Method,
+	resolvePipe,
+	RouteOptions,
+} from '../notations';
+import { documentedMethods } from '../utils/http-methods';
+import {
+	DEFAULT_VERSION_HEADER,
+	routeVersions,
+	versionedPath,
+} from '../utils/versioning';
+import type { IVersioningOptions } from '../interfaces/versioning.interface';
 import { validationMetadatasToSchemas } from 'class-validator-jsonschema';
 import { SwaggerOptions } from 'swagger-ui-express';
 import { ISwaggerBasicAuth } from '../interfaces/config.interface';
 import { inferSchema } from '../utils/infer-schema';
+import { STATUS_CODES } from 'http';
+import { ErrorFormat } from '../interfaces/config.interface';
+import { ErrorDefinition } from '../expections/error-catalog';
+import { getSerializationMetadata } from '../utils/serialize';
+import type { IPipeTransform, PipeType } from '../interfaces/pipe.interface';
+import {
+	PROBLEM_JSON_CONTENT_TYPE,
+	problemDetailsSchema,
+} from '../expections/problem-details';
 
 export interface ISwaggerIntegrationOptions extends SwaggerOptions {
 	basicAuth?: ISwaggerBasicAuth;
+	securitySchemes?: Record<string, unknown>;
+	defaultSecurityScheme?: string;
+	errorFormat?: ErrorFormat;
+	/** Verilirse her API version'ı için ayrı spec üretilir */
+	versioning?: IVersioningOptions;
 }
 
 export class SwaggerIntegration {
 	private swaggerSpec: any;
+	private versionSpecs = new Map<string, any>();
 	private options: ISwaggerIntegrationOptions;
 
 	constructor(options: ISwaggerIntegrationOptions = {}) {
@@ -25,13 +56,6 @@ export class SwaggerIntegration {
 			],
 			docsPath: '/api-docs',
 			jsonPath: '/api-docs.json',
-			...options,
-		};
-	}
-
-	public generateSwaggerSpec(controllers: any[]) {
-		const paths: any = {};
-		const components: any = {
 			securitySchemes: {
 				bearerAuth: {
 					type: 'http',
@@ -39,8 +63,55 @@ export class SwaggerIntegration {
 					bearerFormat: 'JWT',
 				},
 			},
+			defaultSecurityScheme: 'bearerAuth',
+			...options,
+		};
+	}
+
+	public generateSwaggerSpec(controllers: any[]) {
+		const versioning = this.options.versioning;
+		this.versionSpecs.clear();
+		if (!versioning) {
+			this.swaggerSpec = this.buildSpec(controllers);
+			return;
+		}
+		// Her version için ayrı spec; version'suz route'lar hepsinde yer alır
+		for (const version of this.collectVersions(controllers)) {
+			this.versionSpecs.set(version, this.buildSpec(controllers, version));
+		}
+		this.swaggerSpec =
+			(versioning.defaultVersion !== undefined &&
+				this.versionSpecs.get(versioning.defaultVersion)) ||
+			this.versionSpecs.values().next().value ||
+			this.buildSpec(controllers);
+	}
+
+	private collectVersions(controllers: any[]): string[] {
+		const versions = new Set<string>();
+		controllers.forEach((controller) => {
+			const controllerPrototype = Object.getPrototypeOf(controller);
+			getRouteProperties(controllerPrototype).forEach((property) => {
+				const routeOptions = getRouteOptions(controllerPrototype, property);
+				routeVersions(routeOptions?.versions, this.options.versioning)?.forEach(
+					(version) => versions.add(version),
+				);
+			});
+		});
+		return Array.from(versions).sort((a, b) =>
+			a.localeCompare(b, undefined, { numeric: true }),
+		);
+	}
+
+	private buildSpec(controllers: any[], version?: string) {
+		const versioning = this.options.versioning;
+		const paths: any = {};
+		const components: any = {
+			securitySchemes: this.options.securitySchemes,
 			schemas: validationMetadatasToSchemas(),
 		};
+		if (this.options.errorFormat === 'problem') {
+			components.schemas.ProblemDetails = problemDetailsSchema;
+		}
 
 		controllers.forEach((controller) => {
 			const controllerPrototype = Object.getPrototypeOf(controller);
@@ -55,14 +126,10 @@ export class SwaggerIntegration {
 
 			const controllerTag = this.extractControllerTag(controllerPath);
 
-			const allProperties = Object.getOwnPropertyNames(controllerPrototype);
+			const allProperties = getRouteProperties(controllerPrototype);
 
 			allProperties.forEach((property) => {
-				const routeOptions: RouteOptions = Reflect.getMetadata(
-					keyOfRouteOptions,
-					controllerPrototype,
-					property,
-				);
+				const routeOptions = getRouteOptions(controllerPrototype, property);
 
 				if (!routeOptions || !routeOptions.path || !routeOptions.method) {
 					if (property !== 'constructor') {
@@ -71,9 +138,14 @@ export class SwaggerIntegration {
 					return;
 				}
 
-				const fullPath =
-					controllerPath.replace(/\/$/, '') +
-					routeOptions.path.replace(/:([a-zA-Z0-9_]+)/g, '{$1}');
+				const versions = routeVersions(routeOptions.versions, versioning);
+				if (version !== undefined && versions && !versions.includes(version)) return;
+
+				const fullPath = versionedPath(
+					controllerPath.replace(/\/$/, '') + routeOptions.path,
+					versions && version,
+					versioning,
+				).replace(/:([a-zA-Z0-9_]+)/g, '{$1}');
 
 				const method = routeOptions.method.toLowerCase();
 				if (!paths[fullPath]) {
@@ -86,20 +158,37 @@ export class SwaggerIntegration {
 						routeOptions.name?.trim() || this.generateSummary(method, fullPath),
 					description: this.generateDescription(method, fullPath),
 					tags: [controllerTag],
-					responses: {
-						'200': {
-							description: 'Success',
-							content: {
-								'application/json': {
-									schema: {
-										type: 'object',
-									},
-								},
-							},
-						},
-					},
+					responses: {},
 				};
 
+				let successSchema: any = { type: 'object' };
+				if (routeOptions.serialize) {
+					successSchema = this.generateSerializedSchema(
+						routeOptions.serialize.type,
+						components,
+					);
+				} else if (routeOptions.responseType) {
+					successSchema = this.generateSchemaFromValidation(routeOptions.responseType);
+				}
+				if (routeOptions.sse) {
+					operation.responses['200'] = {
+						description: 'Event stream',
+						content: { 'text/event-stream': { schema: { type: 'string' } } },
+					};
+				} else {
+					for (const code of this.successStatusCodes(routeOptions)) {
+						operation.responses[String(code)] = this.successResponse(code, successSchema);
+					}
+				}
+
+				// Add security for authenticated routes
+				if (routeOptions.authenticated) {
+					const schemeNames = routeOptions.authStrategies ?? [
+						this.options.defaultSecurityScheme!,
+					];
+					operation.security = schemeNames.map((name) => ({ [name]: [] }));
+				}
+
 				// Add parameters from path
 				const pathParams = this.extractPathParameters(routeOptions.path);
 				if (pathParams.length > 0) {
@@ -230,7 +319,7 @@ export class SwaggerIntegration {
 				} else {
 					// Fallback to validations if no examples provided
 					if (
-						['post', 'put', 'patch'].includes(method) &&
+						['post', 'put', 'patch', 'all'].includes(method) &&
 						routeOptions.validations
 					) {
 						const bodyValidation = routeOptions.validations?.find((v) => v.body);
@@ -247,6 +336,25 @@ export class SwaggerIntegration {
 					}
 				}
 
+				this.addDecoratedParameters(operation, controllerPrototype, property);
+
+				if (routeOptions.uploads?.length) {
+					operation.requestBody = this.multipartRequestBody(routeOptions);
+				}
+
+				// SSE istemcileri yeniden bağlanırken son aldıkları olayın id'sini gönderir
+				if (routeOptions.sse) {
+					operation.parameters = [
+						...(operation.parameters ?? []),
+						{
+							name: 'Last-Event-ID',
+							in: 'header',
+							required: false,
+							schema: { type: 'string' },
+						},
+					];
+				}
+
 				// Add responses from examples
 				if (routeOptions.examples && routeOptions.examples.length > 0) {
 					operation.responses = {};
@@ -306,27 +414,25 @@ export class SwaggerIntegration {
 					});
 				} else {
 					// Fallback to default responses if no examples
-					// Add security if authenticated
+					// Add error responses
 					if (routeOptions.authenticated) {
-						operation.security = [{ bearerAuth: [] }];
+						operation.responses['401'] = this.errorResponse('Unauthorized');
 					}
 
-					// Add error responses
-					if (routeOptions.authenticated) {
-						operation.responses['401'] = {
-							description: 'Unauthorized',
-						};
+					if (routeOptions.permissions?.length || routeOptions.policies?.length) {
+						operation.responses['403'] = this.errorResponse('Forbidden');
 					}
 
-					if (routeOptions.permissions && routeOptions.permissions.length > 0) {
-						operation.responses['403'] = {
-							description: 'Forbidden',
-						};
+					operation.responses['400'] = this.errorResponse('Bad Request');
+					if (this.options.errorFormat === 'problem') {
+						operation.responses['500'] = this.errorResponse(
+							'Internal Server Error',
+						);
 					}
+				}
 
-					operation.responses['400'] = {
-						description: 'Bad Request',
-					};
+				if (routeOptions.throws?.length) {
+					this.addCatalogErrors(operation, routeOptions.throws);
 				}
 
 				// Postman-compatible script vendor extensions
@@ -345,16 +451,32 @@ export class SwaggerIntegration {
 					operation['x-postman-events'] = postmanEvents;
 				}
 
-				paths[fullPath][method] = operation;
+				if (versions && version !== undefined && versioning?.type === 'header') {
+					(operation.parameters ??= []).push({
+						name: versioning.header ?? DEFAULT_VERSION_HEADER,
+						in: 'header',
+						required: versioning.defaultVersion === undefined,
+						schema: { type: 'string', enum: [version], default: version },
+					});
+				}
+
+				for (const documented of documentedMethods(routeOptions.method)) {
+					paths[fullPath][documented] = this.operationForMethod(
+						operation,
+						documented,
+						fullPath,
+						routeOptions.method === 'all',
+					);
+				}
 			});
 		});
 
-		this.swaggerSpec = {
+		return {
 			openapi: '3.0.0',
 			info: {
 				title: this.options.title!,
 				description: this.options.description!,
-				version: this.options.version!,
+				version: version ?? this.options.version!,
 				contact: {
 					name: 'API Support',
 					email: 'support@example.com',
@@ -366,6 +488,111 @@ export class SwaggerIntegration {
 		};
 	}
 
+	/** Katalog hatalarını status'a göre gruplayıp örnekleriyle ekler */
+	private addCatalogErrors(operation: any, errors: ErrorDefinition[]) {
+		const isProblem = this.options.errorFormat === 'problem';
+		const contentType = isProblem ? PROBLEM_JSON_CONTENT_TYPE : 'application/json';
+
+		for (const error of errors) {
+			const statusCode = String(error.status);
+			const response = (operation.responses[statusCode] ??= {
+				description: STATUS_CODES[error.status] ?? `Status ${statusCode}`,
+			});
+			response.content ??= {};
+			const media = (response.content[contentType] ??= {
+				schema: isProblem
+					? { $ref: '#/components/schemas/ProblemDetails' }
+					: { type: 'object' },
+			});
+			media.examples ??= {};
+			const body = isProblem
+				? {
+						type: 'about:blank',
+						title: STATUS_CODES[error.status],
+						status: error.status,
+						detail: error.message,
+						errorId: error.id,
+					}
+				: { errorId: error.id, message: error.message };
+			media.examples[`error_${error.id}`] = {
+				summary: error.description ?? error.message,
+				value: body,
+			};
+		}
+
+		operation['x-errors'] = errors.map((error) => ({
+			errorId: error.id,
+			status: error.status,
+			message: error.message,
+			...(error.localizationKey !== undefined && {
+				localizationKey: error.localizationKey,
+			}),
+		}));
+	}
+
+	/** @responseStatus kodları, yoksa örneklerdeki başarılı kodlar, o da yoksa 200 */
+	private successStatusCodes(routeOptions: RouteOptions): number[] {
+		const declared = routeOptions.statusCodes?.length
+			? routeOptions.statusCodes
+			: (routeOptions.examples ?? [])
+					.flatMap((example) => Object.keys(example.response ?? {}).map(Number))
+					.filter((code) => code >= 200 && code < 400);
+		const codes = [...new Set<number>(declared)].sort((a, b) => a - b);
+		return codes.length ? codes : [200];
+	}
+
+	private successResponse(code: number, schema: any) {
+		const description = STATUS_CODES[code] ?? 'Success';
+		if (code === 204 || code === 205 || code === 304) return { description };
+		if (code >= 300 && code < 400) {
+			return {
+				description,
+				headers: { Location: { schema: { type: 'string' } } },
+			};
+		}
+		return {
+			description: code === 200 ? 'Success' : description,
+			content: { 'application/json': { schema } },
+		};
+	}
+
+	private errorResponse(description: string) {
+		if (this.options.errorFormat !== 'problem') return { description };
+		return {
+			description,
+			content: {
+				[PROBLEM_JSON_CONTENT_TYPE]: {
+					schema: { $ref: '#/components/schemas/ProblemDetails' },
+				},
+			},
+		};
+	}
+
+	/** @all route'u her method için ayrı operation olur; HEAD yanıtlarında gövde yoktur */
+	private operationForMethod(
+		operation: any,
+		method: Method,
+		fullPath: string,
+		expanded: boolean,
+	): any {
+		if (!expanded && method !== 'head') return operation;
+		const { requestBody, ...rest } = operation;
+		const result: any = {
+			...rest,
+			...(expanded && { description: this.generateDescription(method, fullPath) }),
+			...(requestBody && ['post', 'put', 'patch'].includes(method) && { requestBody }),
+		};
+		if (method === 'head') {
+			result.responses = Object.fromEntries(
+				Object.entries(operation.responses).map(([code, response]: [string, any]) => {
+					const { content: _content, ...withoutBody } = response;
+					return [code, withoutBody];
+				}),
+			);
+		}
+		return result;
+	}
+
 	private generateSummary(method: string, path: string): string {
 		const action = method.toUpperCase();
 		const resource = this.extractResourceName(path);
@@ -423,6 +650,117 @@ export class SwaggerIntegration {
 		return matches ? matches.map((match) => match.substring(1)) : [];
 	}
 
+	/**
+	 * Çıktı DTO şeması: validation şemasından @Exclude alanları çıkarılır,
+	 * @Expose alanları eklenir. Girdi şemasını bozmamak için gerekirse
+	 * <Name>Response adıyla kaydedilir.
+	 */
+	private generateSerializedSchema(type: Function, components: any): any {
+		const base = components.schemas[type.name];
+		const { exposed, excluded } = getSerializationMetadata(type);
+		const properties: Record<string, any> = { ...(base?.properties ?? {}) };
+		exposed.forEach((property) => (properties[property] ??= {}));
+		const changesBase = excluded.some((property) => property in properties);
+		excluded.forEach((property) => delete properties[property]);
+		const required = (base?.required ?? []).filter(
+			(property: string) => !excluded.includes(property),
+		);
+
+		const schemaName = base && changesBase ? `${type.name}Response` : type.name;
+		components.schemas[schemaName] = {
+			...(base ?? {}),
+			type: 'object',
+			properties,
+			...(required.length ? { required } : {}),
+		};
+		if (!required.length) delete components.schemas[schemaName].required;
+		return { $ref: `#/components/schemas/${schemaName}` };
+	}
+
+	/**
+	 * @param/@query/@header/@cookie ile alınan parametreler; aynı ad ve konumda
+	 * bir parametre varsa (path veya örnekten) şeması tipe göre güncellenir.
+	 */
+	private addDecoratedParameters(operation: any, prototype: any, property: string) {
+		const parameters: CustomParameter[] =
+			Reflect.getMetadata(keyOfCustomParams, prototype, property) ?? [];
+		const paramTypes: unknown[] =
+			Reflect.getMetadata('design:paramtypes', prototype, property) ?? [];
+		// Parametre dekoratörleri sondan başa uygulanır, handler sırasına çevir
+		for (const parameter of [...parameters].sort((a, b) => a.index - b.index)) {
+			if (!parameter.name || !parameter.in) continue;
+			let schema = this.schemaForParamType(paramTypes[parameter.index]);
+			// ParseIntPipe, DefaultValuePipe gibi pipe'lar şemayı daraltır
+			for (const pipe of parameter.pipes) {
+				const instance = this.resolvePipeForDocs(pipe);
+				if (instance?.applySchema)
+					schema = instance.applySchema(schema ?? { type: 'string' });
+			}
+			operation.parameters ??= [];
+			const existing = operation.parameters.find(
+				(item: any) => item.name === parameter.name && item.in === parameter.in
+			);
+			if (existing) {
+				if (schema) existing.schema = { ...existing.schema, ...schema };
+				continue;
+			}
+			operation.parameters.push({
+				name: parameter.name,
+				in: parameter.in,
+				required: parameter.in === 'path',
+				schema: schema ?? { type: 'string' },
+			});
+		}
+	}
+
+	private resolvePipeForDocs(pipe: PipeType): IPipeTransform | undefined {
+		try {
+			return resolvePipe(pipe);
+		} catch {
+			// Sadece istek kapsamında çözülebilen pipe'lar dokümana katkı vermez
+			return undefined;
+		}
+	}
+
+	/** Tipi belirsiz (any, nesne) parametrelerde undefined döner */
+	private schemaForParamType(type: unknown): Record<string, unknown> | undefined {
+		if (type === Number) return { type: 'number' };
+		if (type === Boolean) return { type: 'boolean' };
+		if (type === String) return { type: 'string' };
+		return undefined;
+	}
+
+	/** @upload alanları binary, @validate body DTO'su ise diğer form alanları olur */
+	private multipartRequestBody(routeOptions: RouteOptions) {
+		const uploads = routeOptions.uploads ?? [];
+		const fileSchema = { type: 'string', format: 'binary' };
+		const filesSchema: any = {
+			type: 'object',
+			properties: Object.fromEntries(
+				uploads.map((upload) => [
+					upload.field,
+					(upload.maxFiles ?? 1) > 1
+						? { type: 'array', items: fileSchema, maxItems: upload.maxFiles }
+						: fileSchema,
+				])
+			),
+		};
+		const required = uploads.filter((upload) => upload.required).map((upload) => upload.field);
+		if (required.length) filesSchema.required = required;
+
+		const bodyValidation = routeOptions.validations?.find((v) => v.body);
+		return {
+			required: true,
+			content: {
+				'multipart/form-data': {
+					schema: bodyValidation
+						? { allOf: [this.generateSchemaFromValidation(bodyValidation.body), filesSchema] }
+						: filesSchema,
+				},
+			},
+		};
+	}
+
 	private generateSchemaFromValidation(validationClass: any): any {
 		const className = validationClass.name;
 		return { $ref: `#/components/schemas/${className}` };
@@ -467,21 +805,36 @@ export class SwaggerIntegration {
 			? this.basicAuthMiddleware.bind(this)
 			: (_req: Request, _res: Response, next: NextFunction) => next();
 
+		// Birden fazla version varsa UI spec'leri URL'den yükler ve üst barda seçici gösterir
+		const versionUrls = Array.from(this.versionSpecs.keys()).map((version) => ({
+			url: this.versionJsonPath(version),
+			name: `v${version}`,
+		}));
+		const primaryName =
+			this.options.versioning?.defaultVersion !== undefined &&
+			this.versionSpecs.has(this.options.versioning.defaultVersion)
+				? `v${this.options.versioning.defaultVersion}`
+				: versionUrls[0]?.name;
+
 		// Swagger UI middleware with optional basic auth
 		app.use(
 			this.options.docsPath!,
 			authMiddleware,
 			swaggerUi.serve,
-			swaggerUi.setup(this.swaggerSpec, {
+			swaggerUi.setup(versionUrls.length ? undefined : this.swaggerSpec, {
 				explorer: true,
-				customCss: '.swagger-ui .topbar { display: none }',
+				customCss: versionUrls.length
+					? '.swagger-ui .topbar a { display: none }'
+					: '.swagger-ui .topbar { display: none }',
 				customSiteTitle: this.options.title,
 				swaggerOptions: {
+					...(versionUrls.length && { urls: versionUrls }),
 					docExpansion: 'list',
 					filter: true,
 					showRequestHeaders: true,
 					tryItOutEnabled: true,
 					persistAuthorization: true,
+					...(primaryName !== undefined && { 'urls.primaryName': primaryName }),
 				},
 			}),
 		);
@@ -491,16 +844,35 @@ export class SwaggerIntegration {
 			res.setHeader('Content-Type', 'application/json');
 			res.send(this.swaggerSpec);
 		});
+		for (const [version, spec] of this.versionSpecs) {
+			app.get(this.versionJsonPath(version), authMiddleware, (_req, res) => {
+				res.setHeader('Content-Type', 'application/json');
+				res.send(spec);
+			});
+		}
 
 		console.log(`📚 Swagger UI available at: ${this.options.docsPath}`);
 		console.log(`📄 OpenAPI JSON spec available at: ${this.options.jsonPath}`);
+		if (this.versionSpecs.size) {
+			console.log(
+				`🔢 Versioned specs: ${Array.from(this.versionSpecs.keys(), (version) => this.versionJsonPath(version)).join(', ')}`,
+			);
+		}
 		if (this.options.basicAuth) {
 			console.log(`🔒 Swagger endpoints protected with Basic Authentication`);
 		}
 	}
 
-	public getSwaggerSpec() {
-		return this.swaggerSpec;
+	public getSwaggerSpec(version?: string) {
+		return version === undefined ? this.swaggerSpec : this.versionSpecs.get(version);
+	}
+
+	/** /api-docs.json → /api-docs-v2.json */
+	public versionJsonPath(version: string): string {
+		const jsonPath = this.options.jsonPath!;
+		return jsonPath.endsWith('.json')
+			? `${jsonPath.slice(0, -'.json'.length)}-v${version}.json`
+			: `${jsonPath}-v${version}`;
 	}
 }
 
@@ -1,25 +1,61 @@
 import express, { Express, NextFunction, Request, Response } from 'express';
 import { Server } from 'http';
+import { constants as osConstants } from 'os';
 import cors from 'cors';
 import morgan from 'morgan';
 import { IApp } from './interfaces/app.interface';
-import { IConfig } from './interfaces/config.interface';
-import { buildApp, IController } from './notations';
+import { ErrorFormat, IConfig } from './interfaces/config.interface';
+import {
+	attachGateways,
+	buildApp,
+	buildMethodNotAllowedRouter,
+	declaresOptionsRoute,
+	IController,
+} from './notations';
 import { Container, injectable } from 'inversify';
 import { SwaggerIntegration } from './api-docs/swagger';
 import { PostmanIntegration } from './api-docs/postman';
 import { MINI_TYPES } from './types';
-import { bindDiscovered, container } from './container';
+import {
+	bindDiscovered,
+	container,
+	resolveDiscoveredSingletons,
+} from './container';
 import HttpException from './expections/http.expection';
+import { CoreErrors, ErrorCatalog } from './expections/error-catalog';
+import {
+	problemDetailsFromException,
+	sendProblemDetails,
+} from './expections/problem-details';
 import { loadInjectables, LoadInjectablesOptions } from './loader';
+import { LifecycleHook } from './interfaces/lifecycle.interface';
+import { IAuthStrategy } from './interfaces/auth.interface';
+import { DEFAULT_AUTH_STRATEGY } from './auth/gateway.strategy';
+import { requestScopeMiddleware } from './notations/controller/middlewares/request-scope.middleware';
+import { exceptionFilterMiddleware } from './notations/controller/middlewares/exception-filter.middleware';
+import { ExceptionFilterType } from './interfaces/exception-filter.interface';
+import { IGateway } from './interfaces/gateway.interface';
+
+const DEFAULT_SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
 
 @injectable()
 class App implements IApp {
 	app: Express;
 	container: Container;
 	controllers: IController[];
+	gateways: IGateway[] = [];
 	server!: Server;
 	loadedInjectables: boolean = false;
+	isShuttingDown: boolean = false;
+	private shutdownTimeout: number = 10000;
+	private closing?: Promise<void>;
+	private signalHandlers = new Map<NodeJS.Signals, () => void>();
+	private lifecycleInstances: any[] = [];
+	private errorFormat: ErrorFormat = 'json';
+	private problemTypeBaseUri?: string;
+	private exceptionFilters: ExceptionFilterType[] = [];
+	private config?: IConfig;
+	private detachGateways: Array<() => Promise<void>> = [];
 	constructor() {
 		this.app = express();
 
@@ -36,16 +72,83 @@ class App implements IApp {
 	}
 	async init(config: IConfig, loadInjectablesOptions?: LoadInjectablesOptions) {
 		this.loadInjectables(loadInjectablesOptions);
+		ErrorCatalog.validate();
+		this.shutdownTimeout = config.shutdownTimeout ?? this.shutdownTimeout;
+		this.errorFormat = config.errorFormat ?? this.errorFormat;
+		if (config.problemTypeBaseUri !== undefined)
+			this.problemTypeBaseUri = config.problemTypeBaseUri;
+		this.exceptionFilters = config.exceptionFilters ?? this.exceptionFilters;
+		this.resolveControllers();
+		this.resolveGateways();
+		this.lifecycleInstances = this.collectLifecycleInstances();
+		await this.callLifecycleHook('onModuleInit');
 		this.expressAppInitialize(config);
+		// Port dinleyen uygulamalar varsayılan olarak SIGTERM/SIGINT'te düzgün kapanır
+		this.registerShutdownSignals(
+			config.shutdownSignals ??
+				(config.listen !== false ? DEFAULT_SHUTDOWN_SIGNALS : [])
+		);
+		await this.callLifecycleHook('onApplicationBootstrap');
+	}
+	resolveControllers() {
+		if (!this.controllers.length) {
+			this.controllers = container.getAll(MINI_TYPES.IController);
+		}
+		return this.controllers;
+	}
+	resolveGateways() {
+		if (!this.gateways.length && container.isBound(MINI_TYPES.IGateway)) {
+			this.gateways = container.getAll(MINI_TYPES.IGateway);
+		}
+		return this.gateways;
+	}
+	/** Gateway'leri verilen sunucunun upgrade event'ine bağlar (build ile kullanım için) */
+	attachGateways(server: Server) {
+		if (!this.resolveGateways().length) return;
+		this.detachGateways.push(
+			attachGateways(server, this.gateways, {
+				defaultAuthStrategy:
+					this.config?.defaultAuthStrategy ?? DEFAULT_AUTH_STRATEGY,
+				...(this.config?.authorizationHeaderFallback !== undefined && {
+					authorizationHeaderFallback: this.config.authorizationHeaderFallback,
+				}),
+			})
+		);
 	}
 	expressAppInitialize(config: IConfig) {
-		this.app.use(express.json());
-		this.app.use(express.urlencoded({ extended: true }));
-		this.app.use(cors());
-		this.app.use(morgan('dev'));
-		this.server = this.app.listen(config.port, () => {
-			console.log(`Server is running on port ${config.port}`);
+		this.config = config;
+		this.app.use((_req: Request, res: Response, next: NextFunction) => {
+			if (this.isShuttingDown) res.setHeader('Connection', 'close');
+			// Kapanış sırasında biten isteklerin keep-alive soketlerini bırak
+			res.on('finish', () => {
+				if (this.isShuttingDown)
+					setImmediate(() => this.server?.closeIdleConnections());
+			});
+			next();
 		});
+		this.app.use(requestScopeMiddleware);
+		if (config.json !== false) this.app.use(express.json(config.json));
+		if (config.urlencoded !== false)
+			this.app.use(express.urlencoded({ extended: true, ...config.urlencoded }));
+		if (config.cors !== false) {
+			// @options handler'ları cors'un preflight cevabının arkasında kalmasın
+			const preflightContinue =
+				config.cors?.preflightContinue ?? declaresOptionsRoute(this.controllers);
+			this.app.use(cors({ ...config.cors, preflightContinue }));
+		}
+		if (config.logger !== false) this.app.use(morgan(config.logger ?? 'dev'));
+		if (config.beforeRoutes?.length) this.app.use(...config.beforeRoutes);
+		if (config.listen !== false) {
+			this.server = this.app.listen(config.port, () => {
+				console.log(`Server is running on port ${config.port}`);
+			});
+			this.attachGateways(this.server);
+		}
+		const defaultAuthStrategy =
+			config.defaultAuthStrategy ?? DEFAULT_AUTH_STRATEGY;
+		const authStrategies = container.isBound(MINI_TYPES.IAuthStrategy)
+			? container.getAll<IAuthStrategy>(MINI_TYPES.IAuthStrategy)
+			: [];
 		const swaggerIntegration = new SwaggerIntegration({
 			title: config.applicationName,
 			description: `API documentation for ${config.applicationName}`,
@@ -58,7 +161,13 @@ class App implements IApp {
 			],
 			docsPath: config.swaggerDocsPath ?? '/api-docs',
 			jsonPath: config.swaggerJsonPath ?? '/api-docs.json',
+			securitySchemes: Object.fromEntries(
+				authStrategies.map((strategy) => [strategy.name, strategy.securityScheme])
+			),
+			defaultSecurityScheme: defaultAuthStrategy,
+			errorFormat: this.errorFormat,
 			...(config.swaggerBasicAuth && { basicAuth: config.swaggerBasicAuth }),
+			...(config.versioning && { versioning: config.versioning }),
 		});
 		const postmanIntegration = new PostmanIntegration({
 			title: config.applicationName,
@@ -72,30 +181,150 @@ class App implements IApp {
 			],
 			jsonPath: config.postmanJsonPath ?? '/postman.json',
 			...(config.swaggerBasicAuth && { basicAuth: config.swaggerBasicAuth }),
+			...(config.versioning && { versioning: config.versioning }),
 		});
-		this.controllers = container.getAll(MINI_TYPES.IController);
+		this.resolveControllers();
 		swaggerIntegration.generateSwaggerSpec(this.controllers);
 		swaggerIntegration.setupSwagger(this.app);
 		postmanIntegration.generatePostmanCollection(this.controllers);
 		postmanIntegration.setupPostman(this.app);
-		buildApp(this.app, this.controllers);
+		buildApp(this.app, this.controllers, {
+			defaultAuthStrategy,
+			...(config.interceptors !== undefined && {
+				interceptors: config.interceptors,
+			}),
+			...(config.responseValidation !== undefined && {
+				responseValidation: config.responseValidation,
+			}),
+			...(config.authorizationHeaderFallback !== undefined && {
+				authorizationHeaderFallback: config.authorizationHeaderFallback,
+			}),
+			...(config.versioning !== undefined && { versioning: config.versioning }),
+			methodNotAllowed: false,
+		});
+		if (config.afterRoutes?.length) this.app.use(...config.afterRoutes);
+		// afterRoutes controller path'lerine başka method'lar ekleyebilsin diye 405 en sonda
+		this.app.use(buildMethodNotAllowedRouter(this.controllers, config.versioning));
+	}
+	async build(
+		config: IConfig,
+		loadInjectablesOptions?: LoadInjectablesOptions
+	): Promise<Express> {
+		await this.init({ ...config, listen: false }, loadInjectablesOptions);
+		await this.afterInit();
+		return this.app;
 	}
 	getApp() {
 		return this.app;
 	}
 
+	async close(signal?: string) {
+		if (!this.closing) {
+			// Programatik kapanışta dinleyiciler App'i process'e bağlı tutmasın
+			this.removeShutdownSignals();
+			this.closing = (async () => {
+				this.isShuttingDown = true;
+				// Upgrade edilmiş soketler açık kaldıkça server.close tamamlanmaz
+				await Promise.all(this.detachGateways.map((detach) => detach()));
+				await this.drainServer();
+				await this.callLifecycleHook('onApplicationShutdown', signal);
+			})();
+		}
+		return this.closing;
+	}
+
+	private drainServer(): Promise<void> {
+		const server = this.server;
+		if (!server || !server.listening) return Promise.resolve();
+		return new Promise((resolve) => {
+			// Bekleyen istekler timeout içinde bitmezse bağlantıları zorla kapat
+			const timer = setTimeout(
+				() => server.closeAllConnections(),
+				this.shutdownTimeout
+			);
+			timer.unref();
+			server.close(() => {
+				clearTimeout(timer);
+				resolve();
+			});
+			server.closeIdleConnections();
+		});
+	}
+
+	private registerShutdownSignals(signals: NodeJS.Signals[]) {
+		this.removeShutdownSignals();
+		for (const signal of signals) {
+			const handler = () => {
+				this.close(signal)
+					// Sinyalle sonlanan süreçlerin geleneksel çıkış kodu: 128 + sinyal numarası
+					.then(() => process.exit(128 + osConstants.signals[signal]))
+					.catch((error) => {
+						console.error('Shutdown failed:', error);
+						process.exit(1);
+					});
+			};
+			this.signalHandlers.set(signal, handler);
+			process.once(signal, handler);
+		}
+	}
+
+	private removeShutdownSignals() {
+		this.signalHandlers.forEach((handler, signal) =>
+			process.removeListener(signal, handler)
+		);
+		this.signalHandlers.clear();
+	}
+
+	private collectLifecycleInstances() {
+		const instances = resolveDiscoveredSingletons();
+		for (const instance of [...this.controllers, ...this.gateways]) {
+			if (!instances.includes(instance)) instances.push(instance);
+		}
+		return instances;
+	}
+
+	private async callLifecycleHook(hook: LifecycleHook, ...args: unknown[]) {
+		// Kapanışta bağımlılık sırasının tersi: önce bağımlı olanlar kapanır
+		const instances =
+			hook === 'onApplicationShutdown'
+				? [...this.lifecycleInstances].reverse()
+				: this.lifecycleInstances;
+		for (const instance of instances) {
+			if (typeof instance?.[hook] === 'function') {
+				await instance[hook](...args);
+			}
+		}
+	}
+
 	async afterInit(standartErrorHandler: boolean = true) {
+		// Global filtreler: route dışı hatalar da (ör. express.json SyntaxError) buradan geçer
+		if (this.exceptionFilters.length)
+			this.app.use(exceptionFilterMiddleware(this.exceptionFilters));
 		if (standartErrorHandler) {
 			this.app.use(
-				(error: unknown, _req: Request, res: Response, _next: NextFunction) => {
-					if (error instanceof HttpException) {
+				(error: unknown, req: Request, res: Response, _next: NextFunction) => {
+					if (this.errorFormat === 'problem') {
+						if (!(error instanceof HttpException))
+							console.error('Unexpected error:', error);
+						const exception =
+							error instanceof HttpException
+								? error
+								: CoreErrors.Internal.create();
+						sendProblemDetails(
+							res,
+							problemDetailsFromException(exception, {
+								instance: req.originalUrl,
+								...(this.problemTypeBaseUri !== undefined && {
+									typeBaseUri: this.problemTypeBaseUri,
+								}),
+							})
+						);
+					} else if (error instanceof HttpException) {
 						res.status(error.code).json(error.messageJson);
 					} else {
 						console.error('Unexpected error:', error);
-						res.status(500).json({
-							errorId: 1,
-							message: 'Some error happen',
-						});
+						const exception = CoreErrors.Internal.create();
+						res.status(exception.code).json(exception.messageJson);
 					}
 				},
 			);
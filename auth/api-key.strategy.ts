@@ -0,0 +1,42 @@
+import { Request } from 'express';
+import { UnauthorizedException } from '../expections/http.expection';
+import { IAuthStrategy, IAuthUser } from '../interfaces/auth.interface';
+
+export interface IApiKeyStrategyOptions {
+	name?: string;
+	/** Varsayılan: x-api-key */
+	header?: string;
+	/** Verilirse query string'den de okunur */
+	query?: string;
+	validate: (
+		apiKey: string,
+		req: Request
+	) => IAuthUser | null | Promise<IAuthUser | null>;
+}
+
+export class ApiKeyStrategy implements IAuthStrategy {
+	name: string;
+	securityScheme: Record<string, unknown>;
+	private header: string;
+
+	constructor(private options: IApiKeyStrategyOptions) {
+		this.name = options.name ?? 'apiKey';
+		this.header = (options.header ?? 'x-api-key').toLowerCase();
+		this.securityScheme = { type: 'apiKey', in: 'header', name: this.header };
+	}
+
+	async authenticate(req: Request): Promise<IAuthUser | null> {
+		const fromHeader = req.headers[this.header];
+		const fromQuery = this.options.query
+			? req.query[this.options.query]
+			: undefined;
+		const apiKey = [fromHeader, fromQuery].find(
+			(value): value is string => typeof value === 'string' && value.length > 0
+		);
+		if (!apiKey) return null;
+
+		const user = await this.options.validate(apiKey, req);
+		if (!user) throw new UnauthorizedException({ message: 'Invalid API key' });
+		return user;
+	}
+}
@@ -0,0 +1,42 @@
+import { Request } from 'express';
+import { UnauthorizedException } from '../expections/http.expection';
+import { IAuthStrategy, IAuthUser } from '../interfaces/auth.interface';
+
+export interface IBasicStrategyOptions {
+	name?: string;
+	realm?: string;
+	validate: (
+		username: string,
+		password: string,
+		req: Request
+	) => IAuthUser | null | Promise<IAuthUser | null>;
+}
+
+export class BasicStrategy implements IAuthStrategy {
+	name: string;
+	challenge: string;
+	securityScheme = { type: 'http', scheme: 'basic' };
+
+	constructor(private options: IBasicStrategyOptions) {
+		this.name = options.name ?? 'basic';
+		this.challenge = `Basic realm="${options.realm ?? 'API'}"`;
+	}
+
+	async authenticate(req: Request): Promise<IAuthUser | null> {
+		const header = req.headers.authorization;
+		if (!header || !/^Basic /i.test(header)) return null;
+
+		const credentials = Buffer.from(header.slice(6), 'base64').toString();
+		const separator = credentials.indexOf(':');
+		if (separator === -1)
+			throw new UnauthorizedException({ message: 'Invalid credentials' });
+
+		const user = await this.options.validate(
+			credentials.slice(0, separator),
+			credentials.slice(separator + 1),
+			req
+		);
+		if (!user) throw new UnauthorizedException({ message: 'Invalid credentials' });
+		return user;
+	}
+}
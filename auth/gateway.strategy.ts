@@ -0,0 +1,42 @@
+import { Request } from 'express';
+import { IAuthStrategy, IAuthUser } from '../interfaces/auth.interface';
+
+export const DEFAULT_AUTH_STRATEGY = 'gateway';
+
+/** Header tabanlı auth (güvenilir bir gateway arkasında kullanılmalı):
+ *  - x-authenticated: "true" | "1" | "yes" → zorunlu
+ *  - x-user-id: (opsiyonel)
+ *  - x-user-permissions: "admin,editor" (opsiyonel, virgülle ayrılmış)
+ */
+export class GatewayStrategy implements IAuthStrategy {
+	name = DEFAULT_AUTH_STRATEGY;
+	// Gateway'in eklediği header'lar; bearer token okunmaz
+	securityScheme = {
+		type: 'apiKey',
+		in: 'header',
+		name: 'x-authenticated',
+		description:
+			'Set by the trusted gateway together with x-user-id and x-user-permissions',
+	};
+
+	authenticate(req: Request): IAuthUser | null {
+		const isAuthHeader = String(req.headers['x-authenticated'] ?? '')
+			.trim()
+			.toLowerCase();
+		const isAuthenticated =
+			isAuthHeader === 'true' ||
+			isAuthHeader === '1' ||
+			isAuthHeader === 'yes' ||
+			isAuthHeader === 'y';
+		if (!isAuthenticated) return null;
+
+		const userId = (req.headers['x-user-id'] as string) || undefined;
+		const permsHeader = (req.headers['x-user-permissions'] as string) || '';
+		const permissions = permsHeader
+			.split(',')
+			.map((s) => s.trim())
+			.filter(Boolean);
+
+		return { id: userId, permissions };
+	}
+}
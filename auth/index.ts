@@ -0,0 +1,5 @@
+export * from './gateway.strategy';
+export * from './jwt.strategy';
+export * from './api-key.strategy';
+export * from './basic.strategy';
+export * from './role-hierarchy.provider';
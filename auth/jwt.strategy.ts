@@ -0,0 +1,70 @@
+import { Request } from 'express';
+import { UnauthorizedException } from '../expections/http.expection';
+import { IAuthStrategy, IAuthUser } from '../interfaces/auth.interface';
+import {
+	IJwtPayload,
+	IJwtVerifyOptions,
+	JwtAlgorithm,
+	verifyJwt,
+} from '../utils/jwt';
+
+export interface IJwtStrategyOptions
+	extends Omit<IJwtVerifyOptions, 'algorithms'> {
+	name?: string;
+	algorithms?: JwtAlgorithm[];
+	mapUser?: (payload: IJwtPayload) => IAuthUser;
+}
+
+const toStringArray = (value: unknown): string[] => {
+	if (Array.isArray(value)) return value.map(String);
+	if (typeof value === 'string') return value.split(' ').filter(Boolean);
+	return [];
+};
+
+/** Authorization: Bearer <token> (HS256 secret veya RS256 public key ile) */
+export class JwtStrategy implements IAuthStrategy {
+	name: string;
+	challenge = 'Bearer';
+	securityScheme = {
+		type: 'http',
+		scheme: 'bearer',
+		bearerFormat: 'JWT',
+	};
+	private verifyOptions: IJwtVerifyOptions;
+	private mapUser: (payload: IJwtPayload) => IAuthUser;
+
+	constructor(options: IJwtStrategyOptions) {
+		const { name, algorithms, mapUser, ...verifyOptions } = options;
+		const defaultAlgorithms: JwtAlgorithm[] = [];
+		if (options.secret) defaultAlgorithms.push('HS256');
+		if (options.publicKey) defaultAlgorithms.push('RS256');
+
+		this.name = name ?? 'jwt';
+		this.verifyOptions = {
+			...verifyOptions,
+			algorithms: algorithms ?? defaultAlgorithms,
+		};
+		this.mapUser =
+			mapUser ??
+			((payload) => ({
+				...payload,
+				id: payload.sub,
+				permissions: toStringArray(payload['permissions'] ?? payload['scope']),
+				roles: toStringArray(payload['roles']),
+			}));
+	}
+
+	authenticate(req: Request): IAuthUser | null {
+		const header = req.headers.authorization;
+		if (!header || !/^Bearer /i.test(header)) return null;
+
+		const token = header.slice(7).trim();
+		try {
+			return this.mapUser(verifyJwt(token, this.verifyOptions));
+		} catch (error: any) {
+			// Ayrıntı (süre, imza, eksik anahtar) istemciye değil loglara gider
+			console.warn(`JWT rejected by "${this.name}":`, error?.message ?? error);
+			throw new UnauthorizedException({ message: 'Invalid token' });
+		}
+	}
+}
@@ -0,0 +1,30 @@
+import {
+	IAuthUser,
+	IPermissionProvider,
+} from '../interfaces/auth.interface';
+
+export interface IRoleDefinition {
+	permissions?: string[];
+	/** Bu rolün tüm izinlerini devraldığı roller */
+	inherits?: string[];
+}
+
+/** Rol → izin hiyerarşisini çözen varsayılan IPermissionProvider */
+export class RoleHierarchyPermissionProvider implements IPermissionProvider {
+	constructor(private roles: Record<string, IRoleDefinition>) {}
+
+	getPermissions(user: IAuthUser): string[] {
+		const permissions = new Set<string>();
+		const visited = new Set<string>();
+		const visit = (role: string) => {
+			if (visited.has(role)) return;
+			visited.add(role);
+			const definition = this.roles[role];
+			if (!definition) return;
+			definition.permissions?.forEach((p) => permissions.add(p));
+			definition.inherits?.forEach(visit);
+		};
+		(user.roles ?? []).forEach(visit);
+		return Array.from(permissions);
+	}
+}
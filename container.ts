@@ -1,5 +1,7 @@
 import type { ServiceIdentifier } from 'inversify';
 import { Container } from 'inversify';
+import type { Request, Response } from 'express';
+import { MINI_TYPES } from './types';
 export const container = new Container({
 	defaultScope: 'Singleton',
 	autobind: true,
@@ -15,6 +17,7 @@ export type DiscoveredBinding = {
 };
 
 const DISCOVERY_KEY = Symbol.for('DI_DISCOVERY_REGISTRY');
+const ACTIVATION_KEY = Symbol.for('DI_ACTIVATION_ORDER');
 
 function getRegistry(): DiscoveredBinding[] {
 	const g = globalThis as any;
@@ -22,6 +25,27 @@ function getRegistry(): DiscoveredBinding[] {
 	return g[DISCOVERY_KEY] as DiscoveredBinding[];
 }
 
+function getActivationOrder(): any[] {
+	const g = globalThis as any;
+	if (!g[ACTIVATION_KEY]) g[ACTIVATION_KEY] = [];
+	return g[ACTIVATION_KEY] as any[];
+}
+
+/**
+ * Singleton'ı lifecycle hook'larına kaydeder. @autoBind binding'leri bunu otomatik
+ * kullanır; elle bind edilenler `.inSingletonScope().onActivation(trackLifecycle)` ile katılır.
+ */
+export function trackLifecycle<T>(_context: unknown, instance: T): T {
+	const order = getActivationOrder();
+	if (!order.includes(instance)) order.push(instance);
+	return instance;
+}
+
+/** Singleton instances created from discovered bindings, dependencies first. */
+export function getActivatedSingletons(): any[] {
+	return [...getActivationOrder()];
+}
+
 export function autoBind(
 	token: DiscoveredBinding['token'],
 	opts?: { scope?: Scope; priority?: number }
@@ -41,10 +65,55 @@ export const bindDiscovered = () => {
 
 		const binding = container.bind(b.token).to(b.target);
 
-		if (b.scope === 'Singleton') binding.inSingletonScope();
+		if (b.scope === 'Singleton')
+			binding.inSingletonScope().onActivation(trackLifecycle);
 		if (b.scope === 'Transient') binding.inTransientScope();
 		if (b.scope === 'Request') binding.inRequestScope();
 	}
 
 	return { count: reg.length };
 };
+
+export const resolveDiscoveredSingletons = () => {
+	const tokens = new Set(
+		getRegistry()
+			.filter((b) => b.scope === 'Singleton')
+			.map((b) => b.token)
+	);
+	for (const token of tokens) {
+		if (container.isBound(token)) container.getAll(token);
+	}
+	return getActivatedSingletons();
+};
+
+/**
+ * Creates the child container of a single HTTP request. `Request` scoped
+ * discovered bindings are re-bound here as singletons, so they live exactly
+ * as long as the request does.
+ */
+export const createRequestContainer = (req: Request, res: Response) => {
+	const requestContainer = new Container({
+		parent: container,
+		defaultScope: 'Singleton',
+	});
+	requestContainer.bind(MINI_TYPES.HttpRequest).toConstantValue(req);
+	requestContainer.bind(MINI_TYPES.HttpResponse).toConstantValue(res);
+	requestContainer
+		.bind(MINI_TYPES.RequestContainer)
+		.toConstantValue(requestContainer);
+
+	for (const b of getRegistry()) {
+		if (b.scope !== 'Request') continue;
+		requestContainer.bind(b.token).to(b.target).inSingletonScope();
+	}
+
+	return requestContainer;
+};
+
+export const resolveInRequest = <T>(
+	requestContainer: Container | undefined,
+	token: ServiceIdentifier<T>
+): T => {
+	if (requestContainer?.isBound(token)) return requestContainer.get<T>(token);
+	return container.get<T>(token);
+};
@@ -0,0 +1,170 @@
+import HttpException, {
+	BadGatewayException,
+	BadRequestException,
+	ConflictException,
+	ForbiddenException,
+	GatewayTimeoutException,
+	GoneException,
+	IErrorMessage,
+	InternalServerErrorException,
+	LengthRequiredException,
+	MethodNotAllowedException,
+	NotAcceptableException,
+	NotFoundException,
+	NotImplementedException,
+	PaymentRequiredException,
+	PayloadTooLargeException,
+	PreconditionFailedException,
+	ServiceUnavailableException,
+	TooManyRequestsException,
+	UnauthorizedException,
+	UnprocessableEntityException,
+	UnsupportedMediaTypeException,
+} from './http.expection';
+import type { HttpStatusCode } from '../notations/controller/rest.types';
+
+/** 'User {id} not found' → 'id' */
+export type TemplateParams<T extends string> =
+	T extends `${string}{${infer P}}${infer Rest}` ? P | TemplateParams<Rest> : never;
+
+export type ErrorParams<T extends string> = Record<
+	TemplateParams<T>,
+	string | number | boolean
+>;
+
+export interface IErrorDefinition<TMessage extends string = string> {
+	/** Uygulama genelinde tekil, değişmeyen hata kodu */
+	id: number;
+	status: HttpStatusCode;
+	/** {param} yer tutucuları create() parametreleriyle doldurulur */
+	message: TMessage;
+	localizationKey?: string;
+	description?: string;
+}
+
+const exceptionsByStatus: Partial<
+	Record<number, new (error: IErrorMessage) => HttpException>
+> = {
+	400: BadRequestException,
+	401: UnauthorizedException,
+	402: PaymentRequiredException,
+	403: ForbiddenException,
+	404: NotFoundException,
+	405: MethodNotAllowedException,
+	406: NotAcceptableException,
+	409: ConflictException,
+	410: GoneException,
+	411: LengthRequiredException,
+	412: PreconditionFailedException,
+	413: PayloadTooLargeException,
+	415: UnsupportedMediaTypeException,
+	422: UnprocessableEntityException,
+	429: TooManyRequestsException,
+	500: InternalServerErrorException,
+	501: NotImplementedException,
+	502: BadGatewayException,
+	503: ServiceUnavailableException,
+	504: GatewayTimeoutException,
+};
+
+export class ErrorDefinition<TMessage extends string = string>
+	implements IErrorDefinition<TMessage>
+{
+	id: number;
+	status: HttpStatusCode;
+	message: TMessage;
+	localizationKey?: string;
+	description?: string;
+
+	constructor(definition: IErrorDefinition<TMessage>) {
+		this.id = definition.id;
+		this.status = definition.status;
+		this.message = definition.message;
+		if (definition.localizationKey !== undefined)
+			this.localizationKey = definition.localizationKey;
+		if (definition.description !== undefined)
+			this.description = definition.description;
+	}
+
+	format(params?: Partial<ErrorParams<TMessage>>): string {
+		const values = (params ?? {}) as Record<string, unknown>;
+		return this.message.replace(/\{([^}]+)\}/g, (match, name: string) =>
+			values[name] !== undefined ? String(values[name]) : match
+		);
+	}
+
+	/** Status'a uygun HttpException alt sınıfını üretir */
+	create(
+		...args: [TemplateParams<TMessage>] extends [never]
+			? [params?: undefined]
+			: [params: ErrorParams<TMessage>]
+	): HttpException {
+		const [params] = args;
+		const messageJson: IErrorMessage = {
+			errorId: this.id,
+			message: this.format(params),
+			...(this.localizationKey !== undefined && {
+				localizationKey: this.localizationKey,
+			}),
+			...(params !== undefined && { params }),
+		};
+		const Exception = exceptionsByStatus[this.status];
+		return Exception
+			? new Exception(messageJson)
+			: new HttpException(messageJson, this.status);
+	}
+}
+
+export class ErrorCatalog {
+	private static get definitions(): ErrorDefinition[] {
+		const g = globalThis as any;
+		return (g.MINI_ERROR_CATALOG ??= []);
+	}
+
+	static register<TMessage extends string>(
+		definition: IErrorDefinition<TMessage>
+	): ErrorDefinition<TMessage> {
+		const created = new ErrorDefinition(definition);
+		this.definitions.push(created);
+		return created;
+	}
+
+	static getAll(): ErrorDefinition[] {
+		return [...this.definitions];
+	}
+
+	static get(id: number): ErrorDefinition | undefined {
+		return this.definitions.find((definition) => definition.id === id);
+	}
+
+	/** Aynı id ile tanımlanmış hatalar varsa başlangıçta hata fırlatır */
+	static validate() {
+		const seen = new Map<number, ErrorDefinition>();
+		const duplicates: string[] = [];
+		for (const definition of this.definitions) {
+			const existing = seen.get(definition.id);
+			if (existing && existing !== definition)
+				duplicates.push(
+					`${definition.id} ("${existing.message}" / "${definition.message}")`
+				);
+			else seen.set(definition.id, definition);
+		}
+		if (duplicates.length)
+			throw new Error(`Duplicate error ids in catalog: ${duplicates.join(', ')}`);
+	}
+}
+
+export function defineError<TMessage extends string>(
+	definition: IErrorDefinition<TMessage>
+): ErrorDefinition<TMessage> {
+	return ErrorCatalog.register(definition);
+}
+
+/** Framework'ün kendi hataları */
+export const CoreErrors = {
+	Internal: defineError({
+		id: 1,
+		status: 500,
+		message: 'Some error happen',
+	}),
+};
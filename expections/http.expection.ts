@@ -1,11 +1,17 @@
+export type ValidationSource = 'body' | 'query' | 'params' | 'headers';
+
 export interface IValidationError {
+	/** Noktalı yol, dizi elemanları index ile: items[2].price */
 	field: string;
 	errors: string[];
+	source?: ValidationSource;
 }
 export interface IErrorMessage {
 	validationErrors?: IValidationError[];
 	message?: string;
 	errorId?: number;
+	localizationKey?: string;
+	params?: Record<string, unknown>;
 }
 
 export default class HttpException extends Error {
@@ -0,0 +1,69 @@
+import { STATUS_CODES } from 'http';
+import type { Response } from 'express';
+import HttpException from './http.expection';
+
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+/** RFC 7807 problem details; bilinmeyen alanlar extension member olarak eklenir */
+export interface IProblemDetails {
+	type: string;
+	title: string;
+	status: number;
+	detail?: string;
+	instance?: string;
+	[extension: string]: unknown;
+}
+
+export interface IProblemDetailsOptions {
+	/** type alanının öneki, ör. https://errors.example.com → https://errors.example.com/404 */
+	typeBaseUri?: string;
+	instance?: string;
+}
+
+export function problemDetailsFromException(
+	error: HttpException,
+	options: IProblemDetailsOptions = {}
+): IProblemDetails {
+	const { message, ...extensions } = error.messageJson;
+	const status = error.code;
+	return {
+		...extensions,
+		type: options.typeBaseUri
+			? `${options.typeBaseUri.replace(/\/$/, '')}/${status}`
+			: 'about:blank',
+		title: STATUS_CODES[status] ?? 'Error',
+		status,
+		...(message !== undefined ? { detail: message } : {}),
+		...(options.instance !== undefined ? { instance: options.instance } : {}),
+	};
+}
+
+export function sendProblemDetails(res: Response, problem: IProblemDetails) {
+	res.status(problem.status).type(PROBLEM_JSON_CONTENT_TYPE).json(problem);
+}
+
+/** OpenAPI components.schemas altında yayınlanan şema */
+export const problemDetailsSchema = {
+	type: 'object',
+	properties: {
+		type: { type: 'string', format: 'uri-reference', example: 'about:blank' },
+		title: { type: 'string', example: 'Bad Request' },
+		status: { type: 'integer', example: 400 },
+		detail: { type: 'string' },
+		instance: { type: 'string', format: 'uri-reference' },
+		errorId: { type: 'integer' },
+		validationErrors: {
+			type: 'array',
+			items: {
+				type: 'object',
+				properties: {
+					field: { type: 'string' },
+					errors: { type: 'array', items: { type: 'string' } },
+					source: { type: 'string', enum: ['body', 'query', 'params', 'headers'] },
+				},
+			},
+		},
+	},
+	required: ['type', 'title', 'status'],
+	additionalProperties: true,
+};
@@ -1,13 +1,16 @@
 import App from './app';
-import { container, autoBind } from './container';
+import { container, autoBind, trackLifecycle } from './container';
 import { IApp } from './interfaces/app.interface';
 import { MINI_TYPES } from './types';
+import { IAuthStrategy } from './interfaces/auth.interface';
+import { GatewayStrategy } from './auth/gateway.strategy';
 // Main Application class
 
 // Container Class ve instance için
 export * from 'inversify';
 export { container };
 export { autoBind };
+export { trackLifecycle };
 const AutoBind = autoBind;
 export { AutoBind };
 export { IApp };
@@ -17,21 +20,47 @@ export { MINI_TYPES };
 // Interfaces
 export * from './interfaces/app.interface';
 export * from './notations/controller/interfaces/authenticated.interface';
+export * from './notations/controller/interfaces/scoped-request.interface';
 export * from './interfaces/config.interface';
+export * from './interfaces/lifecycle.interface';
+export * from './interfaces/auth.interface';
+export * from './interfaces/policy.interface';
+export * from './interfaces/exception-filter.interface';
+export * from './interfaces/interceptor.interface';
+export * from './interfaces/gateway.interface';
+export * from './interfaces/upload.interface';
+export * from './interfaces/pipe.interface';
+export * from './interfaces/versioning.interface';
 
 // Middlewares
 export * from './notations/controller/middlewares/authenticated.middleware';
 export * from './notations/controller/middlewares/authorized.middleware';
+export * from './notations/controller/middlewares/policy.middleware';
+export * from './notations/controller/middlewares/exception-filter.middleware';
 export * from './notations/controller/middlewares/validation.middleware';
+export * from './notations/controller/middlewares/upload.middleware';
+export * from './notations/controller/middlewares/request-scope.middleware';
 
 // Utils
 export * from './utils/array-unify';
 export * from './utils/math';
 export * from './utils/infer-schema';
+export * from './utils/jwt';
+export * from './utils/permissions';
+export * from './utils/serialize';
+export * from './utils/response-validation';
+export * from './utils/content-disposition';
+export * from './utils/cookies';
+export * from './utils/versioning';
+
+// Auth strategies
+export * from './auth';
 
 // Exceptions
 export * from './expections/http.expection';
 export { default as HttpException } from './expections/http.expection';
+export * from './expections/problem-details';
+export * from './expections/error-catalog';
 
 // Types
 export * from './types';
@@ -46,3 +75,6 @@ export * from './notations';
 export * from './api-docs/swagger';
 
 container.bind<IApp>(MINI_TYPES.IApp).to(App).inSingletonScope();
+container
+	.bind<IAuthStrategy>(MINI_TYPES.IAuthStrategy)
+	.toConstantValue(new GatewayStrategy());
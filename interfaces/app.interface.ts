@@ -3,16 +3,25 @@ import { IConfig } from './config.interface';
 import { Express } from 'express';
 import { Server } from 'http';
 import { LoadInjectablesOptions } from '../loader';
+import { IGateway } from './gateway.interface';
 export interface IApp {
 	server: Server;
 	controllers: IController[];
+	gateways: IGateway[];
 	loadedInjectables: boolean;
+	isShuttingDown: boolean;
 	loadInjectables(loadInjectablesOptions?: LoadInjectablesOptions): void;
 	init(
 		config: IConfig,
 		loadInjectablesOptions?: LoadInjectablesOptions
 	): Promise<void>;
 	expressAppInitialize(config: IConfig): void;
+	attachGateways(server: Server): void;
 	afterInit(standartErrorHandler?: boolean): Promise<void>;
+	build(
+		config: IConfig,
+		loadInjectablesOptions?: LoadInjectablesOptions
+	): Promise<Express>;
 	getApp(): Express;
+	close(signal?: string): Promise<void>;
 }
@@ -0,0 +1,39 @@
+import { Request } from 'express';
+
+export interface IAuthUser {
+	id?: string | undefined;
+	permissions: string[];
+	roles?: string[];
+	[key: string]: unknown;
+}
+
+export interface IAuthStrategy {
+	/** @authenticated('name') ile seçilen strateji adı */
+	name: string;
+	/** OpenAPI components.securitySchemes altında yayınlanan şema */
+	securityScheme: Record<string, unknown>;
+	/** Başarısız istekte WWW-Authenticate header değeri */
+	challenge?: string;
+	/**
+	 * Kimlik bilgisi yoksa null döner; geçersiz kimlik bilgisinde
+	 * UnauthorizedException fırlatır.
+	 */
+	authenticate(req: Request): IAuthUser | null | Promise<IAuthUser | null>;
+}
+
+/** Kullanıcının rollerinden ek izinler üretir (ör. rol hiyerarşisi) */
+export interface IPermissionProvider {
+	getPermissions(user: IAuthUser): string[] | Promise<string[]>;
+}
+
+export type PermissionMode = 'any' | 'all';
+
+declare global {
+	namespace Express {
+		interface User extends IAuthUser {}
+		interface Request {
+			user?: User;
+			authStrategy?: string;
+		}
+	}
+}
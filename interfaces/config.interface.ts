@@ -1,3 +1,15 @@
+import express, { RequestHandler } from 'express';
+import { CorsOptions } from 'cors';
+import type { ExceptionFilterType } from './exception-filter.interface';
+import type { InterceptorType } from './interceptor.interface';
+import type { ResponseValidationMode } from '../utils/response-validation';
+import type { IVersioningOptions } from './versioning.interface';
+
+export type IJsonParserOptions = NonNullable<Parameters<typeof express.json>[0]>;
+export type IUrlencodedParserOptions = NonNullable<
+	Parameters<typeof express.urlencoded>[0]
+>;
+
 export interface ISwaggerServer {
 	url: string;
 	description: string;
@@ -8,6 +20,9 @@ export interface ISwaggerBasicAuth {
 	password: string;
 }
 
+/** json: messageJson olduğu gibi döner, problem: RFC 7807 application/problem+json */
+export type ErrorFormat = 'json' | 'problem';
+
 export interface IConfig {
 	host: string;
 	port: number;
@@ -17,4 +32,27 @@ export interface IConfig {
 	swaggerServers?: ISwaggerServer[];
 	swaggerBasicAuth?: ISwaggerBasicAuth;
 	postmanJsonPath?: string;
+	listen?: boolean;
+	json?: IJsonParserOptions | false;
+	urlencoded?: IUrlencodedParserOptions | false;
+	cors?: CorsOptions | false;
+	logger?: string | false;
+	beforeRoutes?: RequestHandler[];
+	afterRoutes?: RequestHandler[];
+	defaultAuthStrategy?: string;
+	authorizationHeaderFallback?: boolean;
+	errorFormat?: ErrorFormat;
+	/** problem formatında type alanı için taban URI (varsayılan: about:blank) */
+	problemTypeBaseUri?: string;
+	/** Tüm isteklerde, route/controller filtrelerinden sonra denenen filtreler */
+	exceptionFilters?: ExceptionFilterType[];
+	/** Tüm route handler'larını saran global interceptor'lar */
+	interceptors?: InterceptorType[];
+	/** Handler dönüşlerini responseType/örneklere karşı doğrular (geliştirme/test için) */
+	responseValidation?: ResponseValidationMode;
+	/** API versioning stratejisi; verilmezse @version yok sayılır */
+	versioning?: IVersioningOptions;
+	/** app.close() çağıran sinyaller; varsayılan port dinlenirken ['SIGTERM', 'SIGINT'], [] ile kapatılır */
+	shutdownSignals?: NodeJS.Signals[];
+	shutdownTimeout?: number;
 }
@@ -0,0 +1,17 @@
+import { Request, Response } from 'express';
+import type { ServiceIdentifier } from 'inversify';
+import HttpException from '../expections/http.expection';
+
+export interface IExceptionFilter<TError = any> {
+	/**
+	 * Hatayı HttpException'a çevirir. undefined dönerse hata sıradaki filtreye
+	 * olduğu gibi geçer; yanıt filtre içinde gönderildiyse zincir durur.
+	 */
+	catch(
+		error: TError,
+		req: Request,
+		res: Response
+	): HttpException | undefined | void | Promise<HttpException | undefined | void>;
+}
+
+export type ExceptionFilterType = ServiceIdentifier<IExceptionFilter>;
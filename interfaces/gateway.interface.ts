@@ -0,0 +1,51 @@
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import type { IAuthUser } from './auth.interface';
+
+/** İstemci ile sunucu arasında taşınan JSON mesaj: { event, data, id? } */
+export interface IGatewayMessage<T = unknown> {
+	event: string;
+	data?: T;
+	/** Verilirse yanıt ve hata mesajlarında aynen geri gönderilir */
+	id?: string | number;
+}
+
+export interface IGatewayClient {
+	id: string;
+	socket: WebSocket;
+	/** Upgrade (handshake) isteği; auth sonrası user bilgisi de burada */
+	request: IncomingMessage;
+	readonly user: IAuthUser | undefined;
+	rooms: ReadonlySet<string>;
+	send(event: string, data?: unknown, id?: IGatewayMessage['id']): void;
+	join(room: string): void;
+	leave(room: string): void;
+	/** Odaya, bu istemci hariç yayın yapar */
+	to(room: string): IGatewayBroadcaster;
+	close(code?: number, reason?: string): void;
+}
+
+export interface IGatewayBroadcaster {
+	emit(event: string, data?: unknown): void;
+}
+
+export interface IGatewayServer extends IGatewayBroadcaster {
+	path: string;
+	clients: ReadonlySet<IGatewayClient>;
+	to(room: string): IGatewayBroadcaster;
+	roomSize(room: string): number;
+}
+
+export interface IGateway {
+	path: string;
+	/** Gateway sunucuya bağlandığında atanır */
+	server: IGatewayServer;
+}
+
+export interface OnGatewayConnection {
+	onConnection(client: IGatewayClient): void | Promise<void>;
+}
+
+export interface OnGatewayDisconnect {
+	onDisconnect(client: IGatewayClient, code: number, reason: string): void | Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import type { ServiceIdentifier } from 'inversify';
+import type { IController } from '../notations/controller/rest.types';
+
+export interface IExecutionContext {
+	req: Request;
+	res: Response;
+	controller: IController;
+	handlerName: string;
+	/** Handler'a geçecek argümanlar; interceptor next() öncesi değiştirebilir */
+	args: any[];
+}
+
+/** Zincirdeki bir sonraki interceptor'ı ya da handler'ı çalıştırır */
+export type CallHandler<T = any> = () => Promise<T>;
+
+export interface IInterceptor {
+	intercept(context: IExecutionContext, next: CallHandler): unknown | Promise<unknown>;
+}
+
+export type InterceptorType = ServiceIdentifier<IInterceptor>;
@@ -0,0 +1,21 @@
+export interface OnModuleInit {
+	onModuleInit(): void | Promise<void>;
+}
+
+export interface OnApplicationBootstrap {
+	onApplicationBootstrap(): void | Promise<void>;
+}
+
+export interface OnApplicationShutdown {
+	onApplicationShutdown(signal?: string): void | Promise<void>;
+}
+
+/**
+ * Hook'lar controller'lar, gateway'ler ve @autoBind ile keşfedilen singleton'larda çalışır.
+ * container.bind(...).inSingletonScope() ile elle bağlanan servisler yalnızca
+ * .onActivation(trackLifecycle) eklenirse (ve init'e kadar resolve edilmişse) hook alır.
+ */
+export type LifecycleHook =
+	| 'onModuleInit'
+	| 'onApplicationBootstrap'
+	| 'onApplicationShutdown';
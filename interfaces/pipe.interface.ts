@@ -0,0 +1,22 @@
+import type { ServiceIdentifier } from 'inversify';
+
+/** Parametrenin HTTP isteğindeki yeri; Swagger'da `in` olarak kullanılır */
+export type ParamLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export interface IParamMetadata {
+	/** @param('id') gibi dekoratöre verilen ad */
+	name?: string;
+	in?: ParamLocation;
+	/** Handler parametresinin TypeScript tipi (design:paramtypes) */
+	type?: unknown;
+}
+
+/** Parametre değerini handler'a geçmeden önce dönüştürür ya da reddeder */
+export interface IPipeTransform<T = any, R = any> {
+	transform(value: T, metadata: IParamMetadata): R | Promise<R>;
+	/** OpenAPI parametre şemasına katkı (ör. ParseIntPipe → integer) */
+	applySchema?(schema: Record<string, unknown>): Record<string, unknown>;
+}
+
+/** Pipe instance'ı ya da container'dan çözülecek pipe sınıfı/token'ı */
+export type PipeType = IPipeTransform | ServiceIdentifier<IPipeTransform>;
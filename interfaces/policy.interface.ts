@@ -0,0 +1,32 @@
+import { Request } from 'express';
+import type { ServiceIdentifier } from 'inversify';
+import { IAuthUser } from './auth.interface';
+
+export interface IPolicyContext<TResource = unknown> {
+	req: Request;
+	user?: IAuthUser | undefined;
+	/** loadResource tanımlıysa yüklenen kaynak */
+	resource?: TResource | undefined;
+}
+
+export type PolicyDecision = boolean | { allow: boolean; reason?: string };
+
+export interface IPolicy<TResource = unknown> {
+	/** Kontrol edilecek kaynağı yükler (ör. params.id ile sipariş) */
+	loadResource?(req: Request): TResource | Promise<TResource>;
+	/** Reddedilirse reason ForbiddenException mesajı olur */
+	evaluate(
+		context: IPolicyContext<TResource>
+	): PolicyDecision | Promise<PolicyDecision>;
+}
+
+export type PolicyType = ServiceIdentifier<IPolicy<any>>;
+
+declare global {
+	namespace Express {
+		interface Request {
+			/** Policy tarafından yüklenen kaynak; handler tekrar yüklemek zorunda kalmaz */
+			resource?: unknown;
+		}
+	}
+}
@@ -0,0 +1,45 @@
+export type UploadStorage = 'memory' | 'disk';
+
+export interface IUploadOptions {
+	/** Dosya başına bayt cinsinden üst sınır (memory storage'da varsayılan: 10 MB); aşılırsa 413 */
+	maxSize?: number;
+	/** Kabul edilen MIME tipleri, 'image/*' gibi joker desteklenir; aksi halde 415 */
+	mimeTypes?: string[];
+	/** Alandaki en fazla dosya sayısı (varsayılan: 1) */
+	maxFiles?: number;
+	/** Dosya gönderilmezse 400 */
+	required?: boolean;
+	/** memory: buffer olarak (varsayılan), disk: destination altına stream edilir */
+	storage?: UploadStorage;
+	/** disk storage dizini (varsayılan: os.tmpdir()) */
+	destination?: string;
+	/** Dosya dışı form alanı sayısı üst sınırı (varsayılan: 100); aşılırsa 413 */
+	maxFields?: number;
+	/** Form alanı başına bayt cinsinden üst sınır (varsayılan: 1 MB); aşılırsa 413 */
+	maxFieldSize?: number;
+}
+
+export interface IUploadField extends IUploadOptions {
+	field: string;
+}
+
+export interface IUploadedFile {
+	fieldName: string;
+	originalName: string;
+	encoding: string;
+	mimeType: string;
+	size: number;
+	/** memory storage */
+	buffer?: Buffer;
+	/** disk storage; handler çağrıldıktan sonra dosyayı taşımak/silmek handler'ın sorumluluğundadır */
+	path?: string;
+}
+
+declare global {
+	namespace Express {
+		interface Request {
+			/** @upload ile alınan dosyalar, alan adına göre */
+			uploadedFiles?: Record<string, IUploadedFile[]>;
+		}
+	}
+}
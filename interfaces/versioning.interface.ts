@@ -0,0 +1,14 @@
+/** uri: /v2/users, header: Accept-Version: 2, media-type: Accept: application/json;v=2 */
+export type VersioningType = 'uri' | 'header' | 'media-type';
+
+export interface IVersioningOptions {
+	type: VersioningType;
+	/** @version'sız route'ların ve version belirtmeyen isteklerin version'ı */
+	defaultVersion?: string;
+	/** uri: path öneki (varsayılan: 'v') */
+	prefix?: string;
+	/** header: version'ın okunduğu header (varsayılan: 'Accept-Version') */
+	header?: string;
+	/** media-type: Accept header'ındaki parametre adı (varsayılan: 'v') */
+	key?: string;
+}
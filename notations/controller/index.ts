@@ -12,18 +12,71 @@ import { IResponseBuilder } from '../../response-builder';
 import validationMiddleware, {
 	IValidation,
 } from './middlewares/validation.middleware';
-import { authenticatedMiddleware } from './middlewares/authenticated.middleware';
-import { authorizedMiddleware } from './middlewares/authorized.middleware';
-import { autoBind } from '../../container';
+import { authenticationMiddleware } from './middlewares/authenticated.middleware';
+import { DEFAULT_AUTH_STRATEGY } from '../../auth/gateway.strategy';
+import {
+	authorizedMiddleware,
+	IAuthorizationOptions,
+} from './middlewares/authorized.middleware';
+import { policyMiddleware } from './middlewares/policy.middleware';
+import {
+	claimUploadedFiles,
+	uploadMiddleware,
+} from './middlewares/upload.middleware';
+import { versionMiddleware } from './middlewares/version.middleware';
+import { routeVersions, versionedPath } from '../../utils/versioning';
+import type { IVersioningOptions } from '../../interfaces/versioning.interface';
+import type { IUploadOptions } from '../../interfaces/upload.interface';
+import type {
+	IParamMetadata,
+	ParamLocation,
+	PipeType,
+} from '../../interfaces/pipe.interface';
+import { runPipes } from '../pipes';
+import { parseCookies } from '../../utils/cookies';
+import type { PermissionMode } from '../../interfaces/auth.interface';
+import type { PolicyType } from '../../interfaces/policy.interface';
+import { exceptionFilterMiddleware } from './middlewares/exception-filter.middleware';
+import type { ExceptionFilterType } from '../../interfaces/exception-filter.interface';
+import type { ErrorDefinition } from '../../expections/error-catalog';
+import type { InterceptorType } from '../../interfaces/interceptor.interface';
+import { runInterceptors } from '../interceptors';
+import type { ClassConstructor } from 'class-transformer';
+import {
+	ISerializeOptions,
+	serializeResponse,
+} from '../../utils/serialize';
+import { validateResponse } from '../../utils/response-validation';
+import {
+	InternalServerErrorException,
+	MethodNotAllowedException,
+} from '../../expections/http.expection';
+import { allowedMethods } from '../../utils/http-methods';
+import {
+	getLastEventId,
+	ISseOptions,
+	sendServerSentEvents,
+	SseSource,
+} from '../sse';
+import { autoBind, resolveInRequest } from '../../container';
+import type { ServiceIdentifier } from 'inversify';
+import { IScopedRequest } from './interfaces/scoped-request.interface';
 import { MINI_TYPES } from '../../types';
 import {
+	CustomParameter,
+	CustomParamFactory,
 	IController,
 	IControllerClassConstructor,
 	IExtraData,
+	IRouterOptions,
+	Method,
 	ParameterSlot,
 	RouteDefinition,
 	RouteDefinitions,
 	RouteOptions,
+	ScopedParameter,
+	FileParameter,
+	HttpStatusCode,
 } from './rest.types';
 
 export class Controller implements IController {
@@ -45,7 +98,10 @@ export class Controller implements IController {
 		this.name = metaName || metaPath;
 		this.moduleName = metaModuleName || metaName;
 
-		this.routeDefinitions = RouteRegistry.getRouteDefinitions(ctor);
+		this.routeDefinitions = {
+			...RouteRegistry.getInheritedRouteDefinitions(ctor),
+			routes: RouteRegistry.getResolvedRoutes(ctor),
+		};
 	}
 	getRouteDefinition(methodName: string): RouteDefinition {
 		const find = this.routeDefinitions.routes.find(
@@ -66,12 +122,74 @@ export class RouteRegistry {
 			: (target.constructor as IControllerClassConstructor);
 	}
 
+	/** Sınıfın kendi tanımları (static alan base class ile paylaşılmaz) */
 	static getRouteDefinitions(target: any): RouteDefinitions {
 		const ctor = this.getCtor(target);
-		if (!ctor.__routeDefinitions) {
+		if (!Object.prototype.hasOwnProperty.call(ctor, '__routeDefinitions')) {
 			ctor.__routeDefinitions = { basePath: '', routes: [] };
 		}
-		return ctor.__routeDefinitions;
+		return ctor.__routeDefinitions!;
+	}
+
+	/** Base class'lardan gelen tanımlarla birleştirilmiş route tanımları */
+	static getInheritedRouteDefinitions(target: any): RouteDefinitions {
+		const chain: RouteDefinitions[] = [];
+		for (
+			let ctor: any = this.getCtor(target);
+			ctor && ctor !== Function.prototype;
+			ctor = Object.getPrototypeOf(ctor)
+		) {
+			if (Object.prototype.hasOwnProperty.call(ctor, '__routeDefinitions'))
+				chain.unshift(ctor.__routeDefinitions);
+		}
+
+		const merged: RouteDefinitions = { basePath: '', routes: [] };
+		for (const defs of chain) {
+			if (defs.basePath) merged.basePath = defs.basePath;
+			if (defs.controllerName !== undefined)
+				merged.controllerName = defs.controllerName;
+			if (defs.moduleName !== undefined) merged.moduleName = defs.moduleName;
+			if (defs.controllerOptions !== undefined)
+				merged.controllerOptions = defs.controllerOptions;
+			for (const route of defs.routes) {
+				const index = merged.routes.findIndex(
+					(r) => r.methodName === route.methodName
+				);
+				if (index === -1) merged.routes.push(route);
+				else merged.routes[index] = this.mergeRoute(merged.routes[index], route);
+			}
+		}
+		return merged;
+	}
+
+	private static mergeRoute(
+		base: RouteDefinition,
+		own: RouteDefinition
+	): RouteDefinition {
+		const merged: RouteDefinition = { ...base, ...own };
+		// Alt sınıfta açıkça [] verilen liste (ör. @authorized([])) base'dekini temizler
+		if (own.validations === undefined && base.validations)
+			merged.validations = base.validations;
+		if (own.permissions === undefined && base.permissions)
+			merged.permissions = base.permissions;
+		if (!own.otherHttpMiddlewares?.length && base.otherHttpMiddlewares)
+			merged.otherHttpMiddlewares = base.otherHttpMiddlewares;
+		if (!own.policies?.length && base.policies) merged.policies = base.policies;
+		if (!own.filters?.length && base.filters) merged.filters = base.filters;
+		if (!own.throws?.length && base.throws) merged.throws = base.throws;
+		if (!own.interceptors?.length && base.interceptors)
+			merged.interceptors = base.interceptors;
+		if (!own.uploads?.length && base.uploads) merged.uploads = base.uploads;
+		if (!own.versions?.length && base.versions) merged.versions = base.versions;
+		if (!Object.keys(own.parameterIndices ?? {}).length && base.parameterIndices)
+			merged.parameterIndices = base.parameterIndices;
+		if (!own.scopedParameters?.length && base.scopedParameters)
+			merged.scopedParameters = base.scopedParameters;
+		if (!own.fileParameters?.length && base.fileParameters)
+			merged.fileParameters = base.fileParameters;
+		if (!own.customParameters?.length && base.customParameters)
+			merged.customParameters = base.customParameters;
+		return merged;
 	}
 
 	static setBasePath(
@@ -86,14 +204,26 @@ export class RouteRegistry {
 		if (moduleName !== undefined) defs.moduleName = moduleName;
 	}
 
+	static setControllerOptions(
+		constructor: IControllerClassConstructor,
+		options: RouteOptions
+	) {
+		this.getRouteDefinitions(constructor).controllerOptions = options;
+	}
+
+	static getResolvedRoutes(target: any): RouteDefinition[] {
+		const defs = this.getInheritedRouteDefinitions(target);
+		return defs.routes.map((route) =>
+			applyControllerOptions(defs.controllerOptions, route)
+		);
+	}
+
 	static getOrCreateRoute(target: any, methodName: string): RouteDefinition {
 		const defs = this.getRouteDefinitions(target);
 		let route = defs.routes.find((r) => r.methodName === methodName);
 		if (!route) {
 			route = {
 				methodName,
-				validations: [],
-				permissions: [],
 				otherHttpMiddlewares: [],
 				parameterIndices: {},
 			};
@@ -109,12 +239,39 @@ export class RouteRegistry {
 	) {
 		const route = this.getOrCreateRoute(target, methodName);
 
-		if (updates.validations && updates.validations.length) {
-			route.validations = [...(route.validations ?? []), ...updates.validations];
+		if (updates.validations) {
+			route.validations = updates.validations.length
+				? [...(route.validations ?? []), ...updates.validations]
+				: [];
+		}
+		if (updates.permissions) {
+			route.permissions = updates.permissions.length
+				? Array.from(new Set([...(route.permissions ?? []), ...updates.permissions]))
+				: [];
 		}
-		if (updates.permissions && updates.permissions.length) {
-			route.permissions = Array.from(
-				new Set([...(route.permissions ?? []), ...updates.permissions])
+		if (updates.policies && updates.policies.length) {
+			route.policies = Array.from(
+				new Set([...(route.policies ?? []), ...updates.policies])
+			);
+		}
+		if (updates.filters && updates.filters.length) {
+			route.filters = Array.from(
+				new Set([...(route.filters ?? []), ...updates.filters])
+			);
+		}
+		if (updates.throws && updates.throws.length) {
+			route.throws = Array.from(
+				new Set([...(route.throws ?? []), ...updates.throws])
+			);
+		}
+		if (updates.interceptors && updates.interceptors.length) {
+			route.interceptors = Array.from(
+				new Set([...(route.interceptors ?? []), ...updates.interceptors])
+			);
+		}
+		if (updates.uploads && updates.uploads.length) {
+			route.uploads = Array.from(
+				new Set([...(route.uploads ?? []), ...updates.uploads])
 			);
 		}
 		if (updates.otherHttpMiddlewares && updates.otherHttpMiddlewares.length) {
@@ -131,6 +288,16 @@ export class RouteRegistry {
 		if (updates.name !== undefined) route.name = updates.name;
 		if (updates.authenticated !== undefined)
 			route.authenticated = updates.authenticated;
+		if (updates.authStrategies !== undefined)
+			route.authStrategies = updates.authStrategies;
+		if (updates.permissionMode !== undefined)
+			route.permissionMode = updates.permissionMode;
+		if (updates.serialize !== undefined) route.serialize = updates.serialize;
+		if (updates.responseType !== undefined)
+			route.responseType = updates.responseType;
+		if (updates.statusCodes !== undefined) route.statusCodes = updates.statusCodes;
+		if (updates.sse !== undefined) route.sse = updates.sse;
+		if (updates.versions !== undefined) route.versions = updates.versions;
 		if (updates.extraData !== undefined) route.extraData = updates.extraData;
 
 		if (updates.parameterIndices) {
@@ -151,11 +318,44 @@ export class RouteRegistry {
 		route.parameterIndices = { ...(route.parameterIndices ?? {}), [slot]: index };
 	}
 
+	static setScopedParameter(
+		target: any,
+		methodName: string,
+		index: number,
+		token: ServiceIdentifier
+	) {
+		const route = this.getOrCreateRoute(target, methodName);
+		route.scopedParameters = [
+			...(route.scopedParameters ?? []).filter((p) => p.index !== index),
+			{ index, token },
+		];
+	}
+
+	static setFileParameter(target: any, methodName: string, parameter: FileParameter) {
+		const route = this.getOrCreateRoute(target, methodName);
+		route.fileParameters = [
+			...(route.fileParameters ?? []).filter((p) => p.index !== parameter.index),
+			parameter,
+		];
+	}
+
+	static setCustomParameter(
+		target: any,
+		methodName: string,
+		parameter: CustomParameter
+	) {
+		const route = this.getOrCreateRoute(target, methodName);
+		route.customParameters = [
+			...(route.customParameters ?? []).filter((p) => p.index !== parameter.index),
+			parameter,
+		];
+	}
+
 	static getRoutes(target: any): RouteDefinition[] {
-		return this.getRouteDefinitions(target).routes;
+		return this.getInheritedRouteDefinitions(target).routes;
 	}
 	static getBasePathOf(target: any): string {
-		return this.getRouteDefinitions(target).basePath;
+		return this.getInheritedRouteDefinitions(target).basePath;
 	}
 }
 
@@ -166,6 +366,7 @@ export const keyOfPath = Symbol('path');
 export const keyOfName = Symbol('name');
 export const keyOfModuleName = Symbol('moduleName');
 export const keyOfRouteOptions = Symbol('routeOptions');
+export const keyOfControllerOptions = Symbol('controllerOptions');
 export const keyOfReq = Symbol('req');
 export const keyOfRes = Symbol('res');
 export const keyOfNext = Symbol('next');
@@ -173,6 +374,10 @@ export const keyOfBody = Symbol('body');
 export const keyOfQuery = Symbol('query');
 export const keyOfParams = Symbol('params');
 export const keyOfHeaders = Symbol('headers');
+export const keyOfLastEventId = Symbol('lastEventId');
+export const keyOfFiles = Symbol('files');
+export const keyOfScoped = Symbol('scoped');
+export const keyOfCustomParams = Symbol('customParams');
 
 /* ------------------------------------------------------------------ */
 /* Decorators                                                          */
@@ -202,105 +407,345 @@ export function controller(path: string, name?: string, moduleName?: string) {
 	};
 }
 
+function mergeRouteOptions(
+	existingOptions: RouteOptions,
+	newOptions: RouteOptions
+): RouteOptions {
+	const method = newOptions.method ?? existingOptions.method;
+	const path = newOptions.path ?? existingOptions.path;
+
+	// Açıkça boş liste (@validate([]), @authorized([])) önceki/devralınan değerleri temizler
+	const validations =
+		newOptions.validations?.length === 0
+			? []
+			: arrayUnify((newOptions.validations ?? []).concat(existingOptions.validations ?? []));
+	const permissions =
+		newOptions.permissions?.length === 0
+			? []
+			: arrayUnify((newOptions.permissions ?? []).concat(existingOptions.permissions ?? []));
+	const authenticated =
+		newOptions.authenticated !== undefined
+			? newOptions.authenticated
+			: existingOptions.authenticated;
+	const authStrategies =
+		newOptions.authStrategies ?? existingOptions.authStrategies;
+	const permissionMode =
+		newOptions.permissionMode ?? existingOptions.permissionMode;
+	const policies = arrayUnify(
+		(newOptions.policies ?? []).concat(existingOptions.policies ?? [])
+	);
+	const filters = arrayUnify(
+		(newOptions.filters ?? []).concat(existingOptions.filters ?? [])
+	);
+	const throws = arrayUnify(
+		(newOptions.throws ?? []).concat(existingOptions.throws ?? [])
+	);
+	const interceptors = arrayUnify(
+		(newOptions.interceptors ?? []).concat(existingOptions.interceptors ?? [])
+	);
+	const uploads = arrayUnify(
+		(newOptions.uploads ?? []).concat(existingOptions.uploads ?? [])
+	);
+	const otherHttpMiddlewares = arrayUnify(
+		(newOptions.otherHttpMiddlewares ?? []).concat(
+			existingOptions.otherHttpMiddlewares ?? []
+		)
+	);
+	const name = newOptions.name ?? existingOptions.name;
+	const examples = arrayUnify(
+		(newOptions.examples ?? []).concat(existingOptions.examples ?? [])
+	);
+	const serialize = newOptions.serialize ?? existingOptions.serialize;
+	const responseType = newOptions.responseType ?? existingOptions.responseType;
+	const statusCodes = newOptions.statusCodes ?? existingOptions.statusCodes;
+	const sse = newOptions.sse ?? existingOptions.sse;
+	const versions = newOptions.versions ?? existingOptions.versions;
+	const preRequestScript = newOptions.preRequestScript ?? existingOptions.preRequestScript;
+	const testScript = newOptions.testScript ?? existingOptions.testScript;
+
+	const extraData: IExtraData = new Map<string, any>(
+		existingOptions.extraData ?? []
+	);
+	if (newOptions.extraData) {
+		const newOptionsExtraData = newOptions.extraData;
+		for (const k of Array.from(newOptionsExtraData.keys())) {
+			const currentValue = extraData.get(k);
+			if (currentValue === undefined) {
+				extraData.set(k, newOptionsExtraData.get(k));
+				continue;
+			}
+			const newValue = newOptionsExtraData.get(k);
+			let finalValue = currentValue;
+			if (Array.isArray(currentValue)) {
+				finalValue = arrayUnify([
+					...(currentValue as any[]),
+					...(newValue as any[]),
+				]);
+			} else if (
+				currentValue !== null &&
+				typeof currentValue === 'object' &&
+				Object.getPrototypeOf(currentValue) === Object.prototype &&
+				newValue !== null &&
+				typeof newValue === 'object' &&
+				Object.getPrototypeOf(newValue) === Object.prototype
+			) {
+				finalValue = { ...currentValue, ...newValue };
+			} else {
+				finalValue = newValue;
+			}
+			extraData.set(k, finalValue);
+		}
+	}
+
+	const mergedOptions: RouteOptions = {};
+	if (method !== undefined) mergedOptions.method = method;
+	if (path !== undefined) mergedOptions.path = path;
+	if (newOptions.validations ?? existingOptions.validations)
+		mergedOptions.validations = validations;
+	if (newOptions.permissions ?? existingOptions.permissions)
+		mergedOptions.permissions = permissions;
+	if (permissionMode !== undefined) mergedOptions.permissionMode = permissionMode;
+	if (policies.length) mergedOptions.policies = policies;
+	if (filters.length) mergedOptions.filters = filters;
+	if (throws.length) mergedOptions.throws = throws;
+	if (interceptors.length) mergedOptions.interceptors = interceptors;
+	if (uploads.length) mergedOptions.uploads = uploads;
+	if (serialize !== undefined) mergedOptions.serialize = serialize;
+	if (responseType !== undefined) mergedOptions.responseType = responseType;
+	if (statusCodes !== undefined) mergedOptions.statusCodes = statusCodes;
+	if (sse !== undefined) mergedOptions.sse = sse;
+	if (versions !== undefined) mergedOptions.versions = versions;
+	if (authenticated !== undefined) mergedOptions.authenticated = authenticated;
+	if (authStrategies !== undefined) mergedOptions.authStrategies = authStrategies;
+	if (otherHttpMiddlewares.length)
+		mergedOptions.otherHttpMiddlewares = otherHttpMiddlewares;
+	if (name !== undefined) mergedOptions.name = name;
+	if (examples.length) mergedOptions.examples = examples;
+	if (preRequestScript !== undefined) mergedOptions.preRequestScript = preRequestScript;
+	if (testScript !== undefined) mergedOptions.testScript = testScript;
+	if (extraData && extraData.size > 0) mergedOptions.extraData = extraData;
+
+	return mergedOptions;
+}
+
 export function httpMethod(newOptions: RouteOptions) {
 	return function (
 		target: any,
-		propertyKey: string,
-		_descriptor: PropertyDescriptor
+		propertyKey?: string,
+		_descriptor?: PropertyDescriptor
 	) {
-		const existingOptions: RouteOptions =
-			Reflect.getMetadata(keyOfRouteOptions, target, propertyKey) || {};
-
-		const method = newOptions.method ?? existingOptions.method;
-		const path = newOptions.path ?? existingOptions.path;
-
-		const validations = arrayUnify(
-			(newOptions.validations ?? []).concat(existingOptions.validations ?? [])
-		);
-		const permissions = arrayUnify(
-			(newOptions.permissions ?? []).concat(existingOptions.permissions ?? [])
-		);
-		const authenticated =
-			newOptions.authenticated !== undefined
-				? newOptions.authenticated
-				: existingOptions.authenticated;
-		const otherHttpMiddlewares = arrayUnify(
-			(newOptions.otherHttpMiddlewares ?? []).concat(
-				existingOptions.otherHttpMiddlewares ?? []
-			)
-		);
-		const name = newOptions.name ?? existingOptions.name;
-		const examples = arrayUnify(
-			(newOptions.examples ?? []).concat(existingOptions.examples ?? [])
-		);
-		const preRequestScript = newOptions.preRequestScript ?? existingOptions.preRequestScript;
-		const testScript = newOptions.testScript ?? existingOptions.testScript;
-
-		const extraData: IExtraData =
-			existingOptions.extraData ?? new Map<string, any>();
-		if (newOptions.extraData) {
-			const newOptionsExtraData = newOptions.extraData;
-			for (const k of Array.from(newOptionsExtraData.keys())) {
-				const currentValue = extraData.get(k);
-				if (currentValue === undefined) {
-					extraData.set(k, newOptionsExtraData.get(k));
-					continue;
-				}
-				const newValue = newOptionsExtraData.get(k);
-				let finalValue = currentValue;
-				if (Array.isArray(currentValue)) {
-					finalValue = arrayUnify([
-						...(currentValue as any[]),
-						...(newValue as any[]),
-					]);
-				} else if (
-					currentValue !== null &&
-					typeof currentValue === 'object' &&
-					Object.getPrototypeOf(currentValue) === Object.prototype &&
-					newValue !== null &&
-					typeof newValue === 'object' &&
-					Object.getPrototypeOf(newValue) === Object.prototype
-				) {
-					finalValue = { ...currentValue, ...newValue };
-				} else {
-					finalValue = newValue;
-				}
-				extraData.set(k, finalValue);
-			}
+		// Sınıf dekoratörü olarak: controller'daki tüm route'lara uygulanır
+		if (propertyKey === undefined) {
+			const existingOptions: RouteOptions =
+				Reflect.getMetadata(keyOfControllerOptions, target) || {};
+			const mergedOptions = mergeRouteOptions(existingOptions, newOptions);
+			Reflect.defineMetadata(keyOfControllerOptions, mergedOptions, target);
+			RouteRegistry.setControllerOptions(target, mergedOptions);
+			return;
 		}
 
-		const mergedOptions: RouteOptions = {};
-		if (method !== undefined) mergedOptions.method = method;
-		if (path !== undefined) mergedOptions.path = path;
-		if (validations.length) mergedOptions.validations = validations;
-		if (permissions.length) mergedOptions.permissions = permissions;
-		if (authenticated !== undefined) mergedOptions.authenticated = authenticated;
-		if (otherHttpMiddlewares.length)
-			mergedOptions.otherHttpMiddlewares = otherHttpMiddlewares;
-		if (name !== undefined) mergedOptions.name = name;
-		if (examples.length) mergedOptions.examples = examples;
-		if (preRequestScript !== undefined) mergedOptions.preRequestScript = preRequestScript;
-		if (testScript !== undefined) mergedOptions.testScript = testScript;
-		if (extraData && extraData.size > 0) mergedOptions.extraData = extraData;
+		const existingOptions: RouteOptions =
+			Reflect.getMetadata(keyOfRouteOptions, target, propertyKey) || {};
+		const mergedOptions = mergeRouteOptions(existingOptions, newOptions);
 
 		// NOT: method/param dekoratör metadataları **prototype** üzerinde tutuluyor
 		Reflect.defineMetadata(keyOfRouteOptions, mergedOptions, target, propertyKey);
 
+		const {
+			method,
+			path,
+			name,
+			validations,
+			permissions,
+			policies = [],
+			filters = [],
+			throws = [],
+			interceptors = [],
+			uploads = [],
+			otherHttpMiddlewares = [],
+			authenticated,
+			authStrategies,
+			permissionMode,
+			serialize,
+			responseType,
+			statusCodes,
+			sse,
+			versions,
+			extraData,
+		} = mergedOptions;
 		const updates: Partial<RouteDefinition> = {
-			...(validations.length ? { validations } : {}),
-			...(permissions.length ? { permissions } : {}),
+			...(validations !== undefined && { validations }),
+			...(permissions !== undefined && { permissions }),
+			...(policies.length ? { policies } : {}),
+			...(filters.length ? { filters } : {}),
+			...(throws.length ? { throws } : {}),
+			...(interceptors.length ? { interceptors } : {}),
+			...(uploads.length ? { uploads } : {}),
 			...(otherHttpMiddlewares.length ? { otherHttpMiddlewares } : {}),
 		};
 		if (method !== undefined) updates.method = method;
 		if (path !== undefined) updates.path = path;
 		if (name !== undefined) updates.name = name;
 		if (authenticated !== undefined) updates.authenticated = authenticated;
+		if (authStrategies !== undefined) updates.authStrategies = authStrategies;
+		if (permissionMode !== undefined) updates.permissionMode = permissionMode;
+		if (serialize !== undefined) updates.serialize = serialize;
+		if (responseType !== undefined) updates.responseType = responseType;
+		if (statusCodes !== undefined) updates.statusCodes = statusCodes;
+		if (sse !== undefined) updates.sse = sse;
+		if (versions !== undefined) updates.versions = versions;
 		if (extraData && extraData.size > 0) updates.extraData = extraData;
 
 		RouteRegistry.updateRoute(target, propertyKey, updates);
 	};
 }
 
+/**
+ * Controller seviyesindeki seçenekleri route seçenekleriyle birleştirir.
+ * Method seviyesindeki değerler önceliklidir; validation ve middleware'ler
+ * ise controller'dakilerin arkasına eklenir.
+ */
+export function applyControllerOptions<T extends RouteOptions>(
+	controllerOptions: RouteOptions | undefined,
+	routeOptions: T
+): T {
+	if (!controllerOptions) return routeOptions;
+	const merged: T = { ...routeOptions };
+
+	if (routeOptions.validations?.length !== 0) {
+		const validations = arrayUnify([
+			...(controllerOptions.validations ?? []),
+			...(routeOptions.validations ?? []),
+		]);
+		if (validations.length) merged.validations = validations;
+	}
+
+	const otherHttpMiddlewares = arrayUnify([
+		...(controllerOptions.otherHttpMiddlewares ?? []),
+		...(routeOptions.otherHttpMiddlewares ?? []),
+	]);
+	if (otherHttpMiddlewares.length)
+		merged.otherHttpMiddlewares = otherHttpMiddlewares;
+
+	const policies = arrayUnify([
+		...(controllerOptions.policies ?? []),
+		...(routeOptions.policies ?? []),
+	]);
+	if (policies.length) merged.policies = policies;
+
+	// Route filtreleri daha spesifik olduğu için önce denenir
+	const filters = arrayUnify([
+		...(routeOptions.filters ?? []),
+		...(controllerOptions.filters ?? []),
+	]);
+	if (filters.length) merged.filters = filters;
+
+	const throws = arrayUnify([
+		...(controllerOptions.throws ?? []),
+		...(routeOptions.throws ?? []),
+	]);
+	if (throws.length) merged.throws = throws;
+
+	// Controller interceptor'ları dışta kalır
+	const interceptors = arrayUnify([
+		...(controllerOptions.interceptors ?? []),
+		...(routeOptions.interceptors ?? []),
+	]);
+	if (interceptors.length) merged.interceptors = interceptors;
+
+	const uploads = arrayUnify([
+		...(controllerOptions.uploads ?? []),
+		...(routeOptions.uploads ?? []),
+	]);
+	if (uploads.length) merged.uploads = uploads;
+
+	if (
+		routeOptions.serialize === undefined &&
+		controllerOptions.serialize !== undefined
+	)
+		merged.serialize = controllerOptions.serialize;
+
+	// Method seviyesindeki @version controller'dakinin yerine geçer
+	if (
+		routeOptions.versions === undefined &&
+		controllerOptions.versions !== undefined
+	)
+		merged.versions = controllerOptions.versions;
+
+	if (
+		routeOptions.authenticated === undefined &&
+		controllerOptions.authenticated !== undefined
+	)
+		merged.authenticated = controllerOptions.authenticated;
+	if (
+		routeOptions.authStrategies === undefined &&
+		controllerOptions.authStrategies !== undefined
+	)
+		merged.authStrategies = controllerOptions.authStrategies;
+
+	// @authenticated(false) ile açılan route controller izinlerini devralmaz
+	const isPublic = routeOptions.authenticated === false;
+	if (
+		routeOptions.permissions === undefined &&
+		controllerOptions.permissions?.length &&
+		!isPublic
+	) {
+		merged.permissions = controllerOptions.permissions;
+		if (
+			routeOptions.permissionMode === undefined &&
+			controllerOptions.permissionMode !== undefined
+		)
+			merged.permissionMode = controllerOptions.permissionMode;
+	}
+
+	if (controllerOptions.extraData?.size) {
+		merged.extraData = new Map([
+			...controllerOptions.extraData,
+			...(routeOptions.extraData ?? []),
+		]);
+	}
+
+	return merged;
+}
+
+/**
+ * Prototype zinciri boyunca route tanımlı metod isimleri.
+ * Alt sınıftaki override önce gelir, aynı isim tekrar eklenmez.
+ */
+export function getRouteProperties(proto: any): string[] {
+	const properties = new Set<string>();
+	for (
+		let current = proto;
+		current && current !== Object.prototype;
+		current = Object.getPrototypeOf(current)
+	) {
+		for (const property of Object.getOwnPropertyNames(current)) {
+			if (property === 'constructor') continue;
+			if (Reflect.getMetadata(keyOfRouteOptions, proto, property))
+				properties.add(property);
+		}
+	}
+	return Array.from(properties);
+}
+
+/** Bir controller metodunun controller seviyesiyle birleştirilmiş route seçenekleri */
+export function getRouteOptions(
+	target: any,
+	property: string
+): RouteOptions | undefined {
+	const proto = typeof target === 'function' ? target.prototype : target;
+	const routeOptions: RouteOptions | undefined = Reflect.getMetadata(
+		keyOfRouteOptions,
+		proto,
+		property
+	);
+	if (!routeOptions) return undefined;
+	return applyControllerOptions(
+		Reflect.getMetadata(keyOfControllerOptions, proto.constructor),
+		routeOptions
+	);
+}
+
 /* HTTP method sugar */
 export function get(path: string, name?: string, options?: Omit<RouteOptions, 'path' | 'method' | 'name'>) {
 	return httpMethod({ path, method: 'get', name: name ?? path, ...options });
@@ -317,6 +762,35 @@ export function del(path: string, name?: string, options?: Omit<RouteOptions, 'p
 export function patch(path: string, name?: string, options?: Omit<RouteOptions, 'path' | 'method' | 'name'>) {
 	return httpMethod({ path, method: 'patch', name: name ?? path, ...options });
 }
+export function head(path: string, name?: string, options?: Omit<RouteOptions, 'path' | 'method' | 'name'>) {
+	return httpMethod({ path, method: 'head', name: name ?? path, ...options });
+}
+export function options(path: string, name?: string, options?: Omit<RouteOptions, 'path' | 'method' | 'name'>) {
+	return httpMethod({ path, method: 'options', name: name ?? path, ...options });
+}
+/** Path'e gelen tüm method'ları karşılar; bu path için 405 üretilmez */
+export function all(path: string, name?: string, options?: Omit<RouteOptions, 'path' | 'method' | 'name'>) {
+	return httpMethod({ path, method: 'all', name: name ?? path, ...options });
+}
+
+/**
+ * Server-Sent Events route'u; handler async iterable ya da observable döner.
+ * Heartbeat, Last-Event-ID ve bağlantı kopuşu framework tarafından yönetilir.
+ */
+export function sse(
+	path: string,
+	name?: string,
+	options: ISseOptions & Omit<RouteOptions, 'path' | 'method' | 'name' | 'sse'> = {}
+) {
+	const { heartbeat, ...rest } = options;
+	return httpMethod({
+		path,
+		method: 'get',
+		name: name ?? path,
+		sse: { ...(heartbeat !== undefined && { heartbeat }) },
+		...rest,
+	});
+}
 
 export function validate(options: IValidation | IValidation[]) {
 	return httpMethod({
@@ -335,11 +809,63 @@ export function testScript(script: string) {
 		testScript: script,
 	});
 }
-export function authenticated(value: boolean = true) {
-	return httpMethod({ authenticated: value });
+export function authenticated(value: boolean | string | string[] = true) {
+	if (typeof value === 'boolean') return httpMethod({ authenticated: value });
+	return httpMethod({
+		authenticated: true,
+		authStrategies: Array.isArray(value) ? value : [value],
+	});
+}
+export function authorized(value: string | string[], mode?: PermissionMode) {
+	return httpMethod({
+		permissions: Array.isArray(value) ? value : [value],
+		...(mode !== undefined ? { permissionMode: mode } : {}),
+	});
+}
+/** Kaynak bazlı erişim kontrolü; policy sınıfı container'dan çözülür */
+export function policy(...policies: PolicyType[]) {
+	return httpMethod({ policies });
+}
+/** Route veya controller için exception filter'lar (bkz. catchError) */
+export function useFilters(...filters: ExceptionFilterType[]) {
+	return httpMethod({ filters });
+}
+/** Route'un fırlatabileceği katalog hatalarını OpenAPI'ye ekler */
+export function throws(...errors: ErrorDefinition<any>[]) {
+	return httpMethod({ throws: errors });
 }
-export function authorized(value: string | string[]) {
-	return httpMethod({ permissions: Array.isArray(value) ? value : [value] });
+/** Handler çalışmasını saran interceptor'lar; container'dan çözülür */
+export function useInterceptors(...interceptors: InterceptorType[]) {
+	return httpMethod({ interceptors });
+}
+/** Handler sonucunu çıktı DTO'su ile serialize eder (@Exclude/@Expose) */
+export function serialize(
+	type: ClassConstructor<any>,
+	options: ISerializeOptions = {}
+) {
+	return httpMethod({ serialize: { ...options, type } });
+}
+/**
+ * multipart/form-data dosya alanı; dosyalar @file()/@files() ile alınır,
+ * diğer form alanları body olarak @validate({ body }) ile doğrulanır.
+ */
+export function upload(field: string, options: IUploadOptions = {}) {
+	return httpMethod({ uploads: [{ ...options, field }] });
+}
+/** Controller ya da route'un API version'ları; strateji IConfig.versioning ile seçilir */
+export function version(...versions: string[]) {
+	return httpMethod({ versions });
+}
+/** Handler'ın dönüş DTO'su; Swagger şeması ve response validation için */
+export function responseType(type: ClassConstructor<any>) {
+	return httpMethod({ responseType: type });
+}
+/**
+ * Route'un başarılı status kodları; Swagger bunları dokümante eder.
+ * Handler düz bir değer döndürürse ilk kod yanıt status'u olur.
+ */
+export function responseStatus(...codes: HttpStatusCode[]) {
+	return httpMethod({ statusCodes: codes });
 }
 export function middleware(
 	mw: RequestHandler,
@@ -380,7 +906,9 @@ export function body() {
 		RouteRegistry.setParameterIndex(t, k, 'body', i);
 	};
 }
-export function query() {
+/** Ad verilmezse tüm query nesnesi, verilirse tek bir query parametresi */
+export function query(name?: string, ...pipes: PipeType[]) {
+	if (name !== undefined) return queryParam(name, ...pipes);
 	return (t: any, k: string, i: number) => {
 		Reflect.defineMetadata(keyOfQuery, i, t, k);
 		RouteRegistry.setParameterIndex(t, k, 'query', i);
@@ -398,8 +926,127 @@ export function headers() {
 		RouteRegistry.setParameterIndex(t, k, 'headers', i);
 	};
 }
+/**
+ * Kendi parametre dekoratörlerini tanımlamak için: factory istekten değeri
+ * üretir, dekoratöre verilen pipe'lar sırayla uygulanır.
+ * `in` verilirse string data parametre adı olarak Swagger'a eklenir.
+ *
+ *   const tenant = createParamDecorator((_data, req) => req.get('x-tenant'));
+ *   handler(@tenant() tenantId: string)
+ */
+export function createParamDecorator<TData = unknown>(
+	factory: CustomParamFactory<TData>,
+	options: { in?: ParamLocation } = {}
+) {
+	return (data?: TData, ...pipes: PipeType[]) =>
+		(t: any, k: string, i: number) => {
+			const parameter: CustomParameter = {
+				index: i,
+				factory,
+				pipes,
+				...(data !== undefined && { data }),
+				...(options.in !== undefined &&
+					typeof data === 'string' && { name: data, in: options.in }),
+			};
+			const existing: CustomParameter[] =
+				Reflect.getOwnMetadata(keyOfCustomParams, t, k) ?? [];
+			Reflect.defineMetadata(
+				keyOfCustomParams,
+				[...existing.filter((p) => p.index !== i), parameter],
+				t,
+				k
+			);
+			RouteRegistry.setCustomParameter(t, k, parameter);
+		};
+}
+
+const routeParam = createParamDecorator<string>(
+	(name, req) => {
+		const params = (req as any).validatedParams ?? req.params;
+		return name === undefined ? params : params?.[name];
+	},
+	{ in: 'path' }
+);
+const queryParam = createParamDecorator<string>(
+	(name, req) => ((req as any).validatedQuery ?? req.query)?.[name!],
+	{ in: 'query' }
+);
+const headerParam = createParamDecorator<string>(
+	(name, req) => req.headers[name!.toLowerCase()],
+	{ in: 'header' }
+);
+const cookieParam = createParamDecorator<string>(
+	(name, req) => ((req as any).cookies ?? parseCookies(req.headers.cookie))[name!],
+	{ in: 'cookie' }
+);
+const userParam = createParamDecorator<string>((property, req) =>
+	property === undefined ? req.user : (req.user as any)?.[property]
+);
+const ipParam = createParamDecorator((_data, req) => req.ip);
+
+/** Tek bir route parametresi: @param('id') */
+export function param(name: string, ...pipes: PipeType[]) {
+	return routeParam(name, ...pipes);
+}
+/** Tek bir header (büyük/küçük harf duyarsız): @header('x-tenant') */
+export function header(name: string, ...pipes: PipeType[]) {
+	return headerParam(name, ...pipes);
+}
+export function cookie(name: string, ...pipes: PipeType[]) {
+	return cookieParam(name, ...pipes);
+}
+/** Doğrulanmış kullanıcı (req.user) ya da bir alanı: @user('id') */
+export function user(property?: string, ...pipes: PipeType[]) {
+	return userParam(property, ...pipes);
+}
+export function ip() {
+	return ipParam();
+}
+
+/** SSE yeniden bağlanmasında istemcinin gönderdiği Last-Event-ID header'ı */
+export function lastEventId() {
+	return (t: any, k: string, i: number) => {
+		Reflect.defineMetadata(keyOfLastEventId, i, t, k);
+		RouteRegistry.setParameterIndex(t, k, 'lastEventId', i);
+	};
+}
+/** @upload ile alınan ilk dosya; alan verilmezse ilk @upload alanı */
+export function file(field?: string) {
+	return fileParameter(field, false);
+}
+/** @upload ile alınan dosyaların listesi */
+export function files(field?: string) {
+	return fileParameter(field, true);
+}
+function fileParameter(field: string | undefined, multiple: boolean) {
+	return (t: any, k: string, i: number) => {
+		const parameter: FileParameter = {
+			index: i,
+			multiple,
+			...(field !== undefined && { field }),
+		};
+		const existing: FileParameter[] = Reflect.getOwnMetadata(keyOfFiles, t, k) ?? [];
+		Reflect.defineMetadata(keyOfFiles, [...existing, parameter], t, k);
+		RouteRegistry.setFileParameter(t, k, parameter);
+	};
+}
+/** İsteğe özel container'dan (req.container) servis enjekte eder */
+export function scoped(token: ServiceIdentifier) {
+	return (t: any, k: string, i: number) => {
+		const existing: ScopedParameter[] =
+			Reflect.getOwnMetadata(keyOfScoped, t, k) ?? [];
+		Reflect.defineMetadata(keyOfScoped, [...existing, { index: i, token }], t, k);
+		RouteRegistry.setScopedParameter(t, k, i, token);
+	};
+}
+/**
+ * uri versioning'de `version` verilirse yalnızca o version'ın route'ları eklenir
+ * (router /v{version}{controllerPath} altına bağlanır); verilmezse version'suz route'lar.
+ */
 export function buildRouterFromController(
-	controllerInstance: IController
+	controllerInstance: IController,
+	options: IRouterOptions = {},
+	version?: string
 ): IRouter {
 	const ctor = controllerInstance.constructor as any;
 	const proto = Object.getPrototypeOf(controllerInstance);
@@ -407,27 +1054,64 @@ export function buildRouterFromController(
 	const path = Reflect.getMetadata(keyOfPath, ctor);
 	if (!path) throw new Error('Controller class must have a path property');
 
-	const allProperties = Object.getOwnPropertyNames(proto);
+	const allProperties = getRouteProperties(proto);
 	const router = express.Router();
 
 	for (const property of allProperties) {
-		const routeOptions: RouteOptions = Reflect.getMetadata(
-			keyOfRouteOptions,
-			proto,
-			property
-		);
+		const routeOptions = getRouteOptions(proto, property);
 		if (!routeOptions) continue;
 		if (!routeOptions.path)
 			throw new Error(`Route path is required for ${ctor.name}.${property}`);
 		if (!routeOptions.method)
 			throw new Error(`Route method is required for ${ctor.name}.${property}`);
 
-		const { validations, permissions, authenticated, otherHttpMiddlewares } =
-			routeOptions;
+		const versioning = options.versioning;
+		const versions = routeVersions(routeOptions.versions, versioning);
+		if (versioning?.type === 'uri') {
+			if (version === undefined ? versions !== undefined : !versions?.includes(version))
+				continue;
+		}
+
+		const {
+			validations,
+			permissions,
+			permissionMode,
+			policies,
+			filters,
+			authenticated,
+			authStrategies,
+			otherHttpMiddlewares,
+			serialize: serialization,
+			examples,
+		} = routeOptions;
+		const responseValidation = options.responseValidation ?? 'off';
+		// Açıkça tanımlı DTO yoksa @serialize DTO'su sözleşme kabul edilir
+		const declaredType = routeOptions.responseType ?? serialization?.type;
+		const responseContract = {
+			...(declaredType !== undefined && { type: declaredType }),
+			...(examples !== undefined && { examples }),
+		};
+		const checkResponse = async (value: unknown, status: number) => {
+			const errors = await validateResponse(value, status, responseContract);
+			if (!errors.length) return;
+			const message = `Response validation failed for ${ctor.name}.${property}`;
+			if (responseValidation === 'error')
+				throw new InternalServerErrorException({
+					message,
+					validationErrors: errors,
+				});
+			console.warn(message, JSON.stringify(errors));
+		};
+		const interceptors = [
+			...(options.interceptors ?? []),
+			...(routeOptions.interceptors ?? []),
+		];
 
 		const handler = (proto as any)[property].bind(controllerInstance);
 
 		const validationMiddlewares: RequestHandler[] = [];
+		// Upload'lı route'larda body, form alanları okunduktan sonra doğrulanır
+		const bodyValidationMiddlewares: RequestHandler[] = [];
 		const pushOnce = (arr: RequestHandler[], mw: RequestHandler) => {
 			if (!arr.includes(mw)) arr.push(mw);
 		};
@@ -442,7 +1126,9 @@ export function buildRouterFromController(
 				const validationClass = v[t];
 				if (!validationClass) continue;
 				pushOnce(
-					validationMiddlewares,
+					t === 'body' && routeOptions.uploads?.length
+						? bodyValidationMiddlewares
+						: validationMiddlewares,
 					validationMiddleware(
 						validationClass,
 						t,
@@ -456,6 +1142,9 @@ export function buildRouterFromController(
 		}
 
 		const middlewares: RequestHandler[] = [];
+		// Version eşleşmezse aynı path'teki diğer version'ın route'u denenir
+		if (versions && versioning && versioning.type !== 'uri')
+			middlewares.push(versionMiddleware(versions, versioning));
 		if (otherHttpMiddlewares) {
 			const isPreMiddlwaresSorted = otherHttpMiddlewares
 				.filter((item) => item.isPre)
@@ -464,9 +1153,29 @@ export function buildRouterFromController(
 		}
 		if (validationMiddlewares.length) middlewares.push(...validationMiddlewares);
 		if (authenticated)
-			middlewares.push(authenticatedMiddleware as RequestHandler);
-		if (permissions && permissions.length > 0)
-			middlewares.push(authorizedMiddleware(permissions) as RequestHandler);
+			middlewares.push(
+				authenticationMiddleware(
+					authStrategies ?? [
+						options.defaultAuthStrategy ?? DEFAULT_AUTH_STRATEGY,
+					]
+				)
+			);
+		if (permissions && permissions.length > 0) {
+			const authorizationOptions: IAuthorizationOptions = {};
+			if (permissionMode !== undefined) authorizationOptions.mode = permissionMode;
+			if (options.authorizationHeaderFallback !== undefined)
+				authorizationOptions.headerFallback = options.authorizationHeaderFallback;
+			middlewares.push(
+				authorizedMiddleware(permissions, authorizationOptions) as RequestHandler
+			);
+		}
+		if (policies && policies.length > 0)
+			middlewares.push(policyMiddleware(policies) as RequestHandler);
+		// Dosyalar yalnızca yetkili isteklerde okunur; form alanları body validation'dan önce req.body'ye yazılmalı
+		if (routeOptions.uploads?.length) {
+			middlewares.push(uploadMiddleware(routeOptions.uploads));
+			middlewares.push(...bodyValidationMiddlewares);
+		}
 		if (otherHttpMiddlewares) {
 			const isNormalMiddlewares = otherHttpMiddlewares.filter(
 				(item) => !item.isPre
@@ -483,6 +1192,18 @@ export function buildRouterFromController(
 		const bodyIndex = Reflect.getMetadata(keyOfBody, proto, property);
 		const queryIndex = Reflect.getMetadata(keyOfQuery, proto, property);
 		const paramsIndex = Reflect.getMetadata(keyOfParams, proto, property);
+		const headersIndex = Reflect.getMetadata(keyOfHeaders, proto, property);
+		const customParameters: CustomParameter[] =
+			Reflect.getMetadata(keyOfCustomParams, proto, property) ?? [];
+		const paramTypes: unknown[] =
+			Reflect.getMetadata('design:paramtypes', proto, property) ?? [];
+		const lastEventIdIndex = Reflect.getMetadata(keyOfLastEventId, proto, property);
+		const fileParameters: FileParameter[] =
+			Reflect.getMetadata(keyOfFiles, proto, property) ?? [];
+		const uploadedFilesOf = (req: Request, field?: string) =>
+			req.uploadedFiles?.[field ?? routeOptions.uploads?.[0]?.field ?? ''] ?? [];
+		const scopedParameters: ScopedParameter[] =
+			Reflect.getMetadata(keyOfScoped, proto, property) ?? [];
 
 		const handlerMiddleware = async (
 			req: Request,
@@ -494,12 +1215,44 @@ export function buildRouterFromController(
 				if (typeof reqIndex === 'number') argMap.set(reqIndex, req);
 				if (typeof resIndex === 'number') argMap.set(resIndex, res);
 				if (typeof nextIndex === 'number') argMap.set(nextIndex, next);
-				if (typeof bodyIndex === 'number')
-					argMap.set(bodyIndex, (req as any).validatedBody ?? req.body);
+				if (typeof bodyIndex === 'number') argMap.set(bodyIndex, req.body);
 				if (typeof queryIndex === 'number')
 					argMap.set(queryIndex, (req as any).validatedQuery ?? req.query);
 				if (typeof paramsIndex === 'number')
 					argMap.set(paramsIndex, (req as any).validatedParams ?? req.params);
+				if (typeof headersIndex === 'number') argMap.set(headersIndex, req.headers);
+				for (const parameter of customParameters) {
+					let value = await parameter.factory(parameter.data, req, res);
+					const metadata: IParamMetadata = {
+						...(parameter.name !== undefined && { name: parameter.name }),
+						...(parameter.in !== undefined && { in: parameter.in }),
+						...(paramTypes[parameter.index] !== undefined && {
+							type: paramTypes[parameter.index],
+						}),
+					};
+					if (parameter.pipes.length)
+						value = await runPipes(
+							parameter.pipes,
+							value,
+							metadata,
+							(req as IScopedRequest).container
+						);
+					argMap.set(parameter.index, value);
+				}
+				if (typeof lastEventIdIndex === 'number')
+					argMap.set(lastEventIdIndex, getLastEventId(req));
+				for (const { index, field, multiple } of fileParameters) {
+					const uploaded = uploadedFilesOf(req, field);
+					argMap.set(index, multiple ? uploaded : uploaded[0]);
+				}
+				for (const { index, token } of scopedParameters) {
+					argMap.set(
+						index,
+						resolveInRequest((req as IScopedRequest).container, token)
+					);
+				}
+
+				if (routeOptions.uploads?.length) claimUploadedFiles(req);
 
 				let realArgs: any[];
 				if (argMap.size > 0) {
@@ -509,11 +1262,53 @@ export function buildRouterFromController(
 					realArgs = [req, res, next];
 				}
 
-				const result = await handler(...realArgs);
+				const result = interceptors.length
+					? await runInterceptors(
+							interceptors,
+							{
+								req,
+								res,
+								controller: controllerInstance,
+								handlerName: property,
+								args: realArgs,
+							},
+							handler
+						)
+					: await handler(...realArgs);
+				if (routeOptions.sse && !res.headersSent) {
+					await sendServerSentEvents(res, result as SseSource, routeOptions.sse);
+					return;
+				}
+				const defaultStatus = routeOptions.statusCodes?.[0];
+				// Düz dönüşlerde @responseStatus'un ilk kodu; handler status'u değiştirdiyse dokunulmaz
+				if (
+					defaultStatus !== undefined &&
+					!(result && typeof (result as any).build === 'function') &&
+					!res.headersSent &&
+					res.statusCode === 200
+				)
+					res.status(defaultStatus);
+				if (responseValidation !== 'off' && !res.headersSent) {
+					const isBuilder =
+						result && typeof (result as any).build === 'function';
+					await checkResponse(
+						isBuilder ? (result as IResponseBuilder).data : result,
+						isBuilder ? (result as IResponseBuilder).status : res.statusCode
+					);
+				}
+
 				if (result && typeof (result as any).build === 'function') {
-					(result as IResponseBuilder).build(res);
+					const builder = result as IResponseBuilder;
+					// ResponseBuilder üzerindeki serialize ayarı route ayarından önceliklidir
+					if (serialization && !builder.serialization)
+						builder.serialization = serialization;
+					await builder.build(res, next);
 				} else if (!res.headersSent) {
-					res.json(result);
+					res.json(
+						serialization
+							? serializeResponse(result, serialization, req.user)
+							: result
+					);
 				}
 			} catch (error) {
 				next(error);
@@ -523,18 +1318,106 @@ export function buildRouterFromController(
 		(router as any)[method](
 			routePath,
 			...middlewares,
-			handlerMiddleware as RequestHandler
+			handlerMiddleware as RequestHandler,
+			...(filters?.length ? [exceptionFilterMiddleware(filters)] : [])
 		);
 	}
 
 	return router;
 }
-export function buildApp(app: Express, controllers: IController[]) {
+export function buildApp(
+	app: Express,
+	controllers: IController[],
+	options: IRouterOptions = {}
+) {
 	for (const instance of controllers) {
-		const router = buildRouterFromController(instance);
 		const controllerPath = Reflect.getMetadata(keyOfPath, instance.constructor);
-		if (controllerPath) app.use(controllerPath, router);
-		else app.use(router);
+		// uri versioning'de controller'ın her version'ı ayrı prefix altında bağlanır
+		const versions =
+			options.versioning?.type === 'uri'
+				? controllerVersions(instance, options.versioning)
+				: [undefined];
+		for (const version of versions) {
+			const router = buildRouterFromController(instance, options, version);
+			const mountPath = versionedPath(controllerPath || '/', version, options.versioning);
+			if (mountPath !== '/') app.use(mountPath, router);
+			else app.use(router);
+		}
 	}
+	// Tüm controller'lar kaydedildikten sonra: aynı path'i paylaşan controller'lar birbirini kesmesin
+	if (options.methodNotAllowed !== false)
+		app.use(buildMethodNotAllowedRouter(controllers, options.versioning));
 	return app;
 }
+
+/** Controller route'larının version'ları; version'suz route'lar undefined ile temsil edilir */
+function controllerVersions(
+	instance: IController,
+	versioning: IVersioningOptions
+): Array<string | undefined> {
+	const proto = Object.getPrototypeOf(instance);
+	const versions = new Set<string | undefined>();
+	for (const property of getRouteProperties(proto)) {
+		const routeOptions = getRouteOptions(proto, property);
+		if (!routeOptions?.path || !routeOptions.method) continue;
+		const own = routeVersions(routeOptions.versions, versioning);
+		if (own) own.forEach((version) => versions.add(version));
+		else versions.add(undefined);
+	}
+	return Array.from(versions);
+}
+
+/** Kendi OPTIONS handler'ını (@options) tanımlayan bir route var mı */
+export function declaresOptionsRoute(controllers: IController[]): boolean {
+	return controllers.some((instance) => {
+		const proto = Object.getPrototypeOf(instance);
+		return getRouteProperties(proto).some(
+			(property) => getRouteOptions(proto, property)?.method === 'options'
+		);
+	});
+}
+
+/**
+ * Path eşleşip method eşleşmediğinde Allow header'ı ile 405 döner.
+ * OPTIONS istekleri bu noktaya gelmeden Express router'ı (ya da cors) tarafından cevaplanır.
+ */
+export function buildMethodNotAllowedRouter(
+	controllers: IController[],
+	versioning?: IVersioningOptions
+): IRouter {
+	const methodsByPath = new Map<string, Set<Method>>();
+	for (const instance of controllers) {
+		const controllerPath: string = Reflect.getMetadata(keyOfPath, instance.constructor) ?? '';
+		const proto = Object.getPrototypeOf(instance);
+		for (const property of getRouteProperties(proto)) {
+			const routeOptions = getRouteOptions(proto, property);
+			if (!routeOptions?.path || !routeOptions.method) continue;
+			const path = controllerPath.replace(/\/$/, '') + routeOptions.path;
+			const versions = routeVersions(routeOptions.versions, versioning) ?? [undefined];
+			for (const version of versions) {
+				const fullPath = versionedPath(path, version, versioning);
+				const methods = methodsByPath.get(fullPath) ?? new Set<Method>();
+				methods.add(routeOptions.method);
+				methodsByPath.set(fullPath, methods);
+			}
+		}
+	}
+
+	const router = express.Router();
+	for (const [fullPath, methods] of methodsByPath) {
+		if (methods.has('all')) continue;
+		const allow = allowedMethods(methods).join(', ');
+		router.all(fullPath || '/', (req: Request, res: Response, next: NextFunction) => {
+			// Method kayıtlı ama istenen version'da yoksa 404'e düşer
+			const method = req.method.toLowerCase() as Method;
+			if (methods.has(method) || (method === 'head' && methods.has('get'))) return next();
+			res.setHeader('Allow', allow);
+			next(
+				new MethodNotAllowedException({
+					message: `Method ${req.method} is not allowed for ${req.originalUrl.split('?')[0]}`,
+				})
+			);
+		});
+	}
+	return router;
+}
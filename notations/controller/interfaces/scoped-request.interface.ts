@@ -0,0 +1,6 @@
+import { Request } from 'express';
+import { Container } from 'inversify';
+
+export interface IScopedRequest extends Request {
+	container: Container;
+}
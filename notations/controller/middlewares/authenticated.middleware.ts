@@ -1,41 +1,77 @@
-import { NextFunction, Response } from 'express';
-import { UnauthorizedException } from '../../../expections/http.expection';
+import { NextFunction, RequestHandler, Response } from 'express';
+import HttpException, {
+	UnauthorizedException,
+} from '../../../expections/http.expection';
 import { IAuthenticatedRequest } from '../interfaces/authenticated.interface';
+import { IAuthStrategy } from '../../../interfaces/auth.interface';
+import { GatewayStrategy } from '../../../auth/gateway.strategy';
+import { container } from '../../../container';
+import { MINI_TYPES } from '../../../types';
 
-/** Header tabanlı auth kontrolü (throw’lu):
- *  - x-authenticated: "true" | "1" | "yes" → zorunlu
- *  - x-user-id: (opsiyonel)
- *  - x-user-permissions: "admin,editor" (opsiyonel, virgülle ayrılmış)
- */
+const gatewayStrategy = new GatewayStrategy();
+
+/** Header tabanlı auth kontrolü (throw’lu), bkz. GatewayStrategy */
 export const authenticatedMiddleware = (
 	req: IAuthenticatedRequest,
 	_res: Response,
 	next: NextFunction
 ) => {
-	const isAuthHeader = String(req.headers['x-authenticated'] ?? '')
-		.trim()
-		.toLowerCase();
-	const isAuthenticated =
-		isAuthHeader === 'true' ||
-		isAuthHeader === '1' ||
-		isAuthHeader === 'yes' ||
-		isAuthHeader === 'y';
-
-	if (!isAuthenticated) {
+	const user = gatewayStrategy.authenticate(req);
+	if (!user) {
 		// 401 → throw (global error handler bunu 401’e map etmeli)
 		throw new UnauthorizedException({ message: 'Unauthorized' });
 	}
 
-	const userId = (req.headers['x-user-id'] as string) || undefined;
-	const permsHeader = (req.headers['x-user-permissions'] as string) || '';
-	const permissions = permsHeader
-		.split(',')
-		.map((s) => s.trim())
-		.filter(Boolean);
-
-	// isteğe bağlı: request'e enjekte et
 	req.authenticated = true;
-	(req as any).user = { id: userId, permissions };
+	req.user = user;
+	req.authStrategy = gatewayStrategy.name;
 
 	next();
 };
+
+/**
+ * Container'a bağlı IAuthStrategy'ler arasından verilen isimleri sırayla dener;
+ * ilk başarılı strateji req.user'ı doldurur.
+ * İsimler router kurulurken çözülür; kayıtlı olmayan strateji başlangıçta hata verir.
+ */
+export const authenticationMiddleware = (
+	strategyNames: string[]
+): RequestHandler => {
+	const registered = container.isBound(MINI_TYPES.IAuthStrategy)
+		? container.getAll<IAuthStrategy>(MINI_TYPES.IAuthStrategy)
+		: [];
+	const strategies = strategyNames.map((name) => {
+		const strategy = registered.find((item) => item.name === name);
+		if (!strategy) throw new Error(`Auth strategy "${name}" is not registered`);
+		return strategy;
+	});
+
+	return async (req, res, next) => {
+		try {
+			let failure: HttpException | undefined;
+			for (const strategy of strategies) {
+				try {
+					const user = await strategy.authenticate(req);
+					if (!user) continue;
+					(req as IAuthenticatedRequest).authenticated = true;
+					req.user = user;
+					req.authStrategy = strategy.name;
+					next();
+					return;
+				} catch (error) {
+					if (!(error instanceof HttpException)) throw error;
+					failure ??= error;
+				}
+			}
+
+			const challenges = strategies
+				.map((strategy) => strategy.challenge)
+				.filter(Boolean);
+			if (challenges.length)
+				res.setHeader('WWW-Authenticate', challenges.join(', '));
+			throw failure ?? new UnauthorizedException({ message: 'Unauthorized' });
+		} catch (error) {
+			next(error);
+		}
+	};
+};
@@ -1,26 +1,57 @@
 import { NextFunction, Request, Response } from 'express';
 import { ForbiddenException } from '../../../expections/http.expection';
-export const authorizedMiddleware = (required: string[]) => {
-	return (
-		req: Request & { user?: { permissions?: string[] } },
-		_res: Response,
-		next: NextFunction
-	) => {
-		const fromReq = req.user?.permissions ?? [];
-		const fromHeader = String(req.headers['x-user-permissions'] ?? '')
-			.split(',')
-			.map((s) => s.trim())
-			.filter(Boolean);
+import {
+	IPermissionProvider,
+	PermissionMode,
+} from '../../../interfaces/auth.interface';
+import { container } from '../../../container';
+import { MINI_TYPES } from '../../../types';
+import { hasPermission } from '../../../utils/permissions';
 
-		const current = new Set<string>([...fromReq, ...fromHeader]);
-		const ok =
-			required.length === 0 || required.some((perm) => current.has(perm));
+export interface IAuthorizationOptions {
+	/** any: izinlerden biri yeterli (varsayılan), all: hepsi gerekli */
+	mode?: PermissionMode;
+	/** req.user yokken x-user-permissions header'ı okunsun mu (varsayılan: true) */
+	headerFallback?: boolean;
+}
 
-		if (!ok) {
-			// 403 → throw (global error handler bunu 403’e map etmeli)
-			throw new ForbiddenException({ message: 'Forbidden' });
-		}
+export const authorizedMiddleware = (
+	required: string[],
+	options: IAuthorizationOptions = {}
+) => {
+	const mode = options.mode ?? 'any';
+	const headerFallback = options.headerFallback ?? true;
+
+	return async (req: Request, _res: Response, next: NextFunction) => {
+		try {
+			const current = new Set<string>(req.user?.permissions ?? []);
+			if (req.user) {
+				const provider = container.isBound(MINI_TYPES.IPermissionProvider)
+					? container.get<IPermissionProvider>(MINI_TYPES.IPermissionProvider)
+					: undefined;
+				const provided = provider ? await provider.getPermissions(req.user) : [];
+				provided.forEach((perm) => current.add(perm));
+			} else if (headerFallback) {
+				String(req.headers['x-user-permissions'] ?? '')
+					.split(',')
+					.map((s) => s.trim())
+					.filter(Boolean)
+					.forEach((perm) => current.add(perm));
+			}
+
+			const check = (perm: string) => hasPermission(current, perm);
+			const ok =
+				required.length === 0 ||
+				(mode === 'all' ? required.every(check) : required.some(check));
 
-		next();
+			if (!ok) {
+				// 403 → throw (global error handler bunu 403’e map etmeli)
+				throw new ForbiddenException({ message: 'Forbidden' });
+			}
+
+			next();
+		} catch (error) {
+			next(error);
+		}
 	};
 };
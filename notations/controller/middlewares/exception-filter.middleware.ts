@@ -0,0 +1,48 @@
+import type {
+	ErrorRequestHandler,
+	NextFunction,
+	Request,
+	Response,
+} from 'express';
+import {
+	ExceptionFilterType,
+	IExceptionFilter,
+} from '../../../interfaces/exception-filter.interface';
+import { resolveInRequest } from '../../../container';
+import { canCatch } from '../../filters';
+import { IScopedRequest } from '../interfaces/scoped-request.interface';
+
+/**
+ * Filtreleri sırayla dener; ilk eşleşen filtrenin döndürdüğü HttpException
+ * yeni hata olur. HttpException'ı sadece onu açıkça hedefleyen filtreler yakalar.
+ */
+export async function runExceptionFilters(
+	filters: ExceptionFilterType[],
+	error: unknown,
+	req: Request,
+	res: Response
+): Promise<unknown> {
+	for (const token of filters) {
+		const filter = resolveInRequest<IExceptionFilter>(
+			(req as IScopedRequest).container,
+			token
+		);
+		if (!canCatch(filter, error)) continue;
+		const mapped = await filter.catch(error, req, res);
+		if (mapped || res.headersSent) return mapped;
+	}
+	return error;
+}
+
+export const exceptionFilterMiddleware = (
+	filters: ExceptionFilterType[]
+): ErrorRequestHandler => {
+	return async (error: unknown, req: Request, res: Response, next: NextFunction) => {
+		try {
+			const mapped = await runExceptionFilters(filters, error, req, res);
+			if (!res.headersSent) next(mapped);
+		} catch (filterError) {
+			next(filterError);
+		}
+	};
+};
@@ -0,0 +1,37 @@
+import { NextFunction, Request, Response } from 'express';
+import { ForbiddenException } from '../../../expections/http.expection';
+import { IPolicy, PolicyType } from '../../../interfaces/policy.interface';
+import { resolveInRequest } from '../../../container';
+import { IScopedRequest } from '../interfaces/scoped-request.interface';
+
+export const policyMiddleware = (policies: PolicyType[]) => {
+	return async (req: Request, _res: Response, next: NextFunction) => {
+		try {
+			for (const token of policies) {
+				const policy = resolveInRequest<IPolicy>(
+					(req as IScopedRequest).container,
+					token
+				);
+				const resource = policy.loadResource
+					? await policy.loadResource(req)
+					: undefined;
+				if (resource !== undefined) req.resource = resource;
+
+				const decision = await policy.evaluate({
+					req,
+					user: req.user,
+					resource,
+				});
+				const allow = typeof decision === 'boolean' ? decision : decision.allow;
+				if (!allow) {
+					const reason =
+						typeof decision === 'boolean' ? undefined : decision.reason;
+					throw new ForbiddenException({ message: reason ?? 'Forbidden' });
+				}
+			}
+			next();
+		} catch (error) {
+			next(error);
+		}
+	};
+};
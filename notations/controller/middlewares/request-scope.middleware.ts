@@ -0,0 +1,29 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'inversify';
+import { createRequestContainer } from '../../../container';
+
+/** Her HTTP isteği için bir alt container sağlar:
+ *  - req.container ilk erişimde oluşturulur
+ *  - yanıt kapandığında container unbind edilir (@preDestroy çalışır)
+ */
+export const requestScopeMiddleware = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	let requestContainer: Container | undefined;
+	Object.defineProperty(req, 'container', {
+		configurable: true,
+		enumerable: false,
+		get: () => (requestContainer ??= createRequestContainer(req, res)),
+	});
+
+	res.on('close', () => {
+		if (!requestContainer) return;
+		requestContainer.unbindAll().catch((error) => {
+			console.error('Request container dispose failed:', error);
+		});
+	});
+
+	next();
+};
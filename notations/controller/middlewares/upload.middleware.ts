@@ -0,0 +1,209 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import busboy from 'busboy';
+import { randomUUID } from 'crypto';
+import { createWriteStream, promises as fs, WriteStream } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+	BadRequestException,
+	InternalServerErrorException,
+	PayloadTooLargeException,
+	UnsupportedMediaTypeException,
+} from '../../../expections/http.expection';
+import type {
+	IUploadedFile,
+	IUploadField,
+} from '../../../interfaces/upload.interface';
+
+const matchesMimeType = (mimeType: string, patterns: string[]) =>
+	patterns.some((pattern) =>
+		pattern.endsWith('/*')
+			? mimeType.startsWith(pattern.slice(0, -1))
+			: pattern === mimeType
+	);
+
+const DEFAULT_MAX_FIELDS = 100;
+const DEFAULT_MAX_FIELD_SIZE = 1024 * 1024;
+const DEFAULT_MEMORY_MAX_SIZE = 10 * 1024 * 1024;
+
+/** memory storage'da dosya belleğe alındığı için maxSize verilmese de sınır vardır */
+const maxSizeOf = (field: IUploadField) =>
+	field.maxSize ?? (field.storage === 'disk' ? undefined : DEFAULT_MEMORY_MAX_SIZE);
+
+/** Handler'a teslim edilen isteklerin diskteki dosyaları artık silinmez */
+const claimedRequests = new WeakSet<Request>();
+
+/** Handler çağrılmadan hemen önce çağrılır; sonrasında dosyalar handler'ındır */
+export const claimUploadedFiles = (req: Request) => {
+	claimedRequests.add(req);
+};
+
+const removeFile = (path: string) => void fs.unlink(path).catch(() => undefined);
+
+/**
+ * multipart/form-data gövdesini stream ederek okur: dosyalar req.uploadedFiles'a,
+ * diğer alanlar @validate({ body }) ile doğrulanabilmesi için req.body'ye yazılır.
+ * İstek handler'a ulaşmadan biterse (validation, 401/403, hata) disk dosyaları silinir.
+ */
+export const uploadMiddleware = (fields: IUploadField[]): RequestHandler => {
+	const byField = new Map(fields.map((field) => [field.field, field]));
+	const maxOf = (values: Array<number | undefined>, fallback: number) =>
+		Math.max(...values.map((value) => value ?? fallback));
+	// Alan bazlı sınırlar kendi mesajlarıyla önce devreye girer; busboy limitleri son güvencedir
+	const limits: busboy.Limits = {
+		files: fields.reduce((total, field) => total + (field.maxFiles ?? 1), 0) + 1,
+		fields: maxOf(fields.map((field) => field.maxFields), DEFAULT_MAX_FIELDS),
+		fieldSize: maxOf(fields.map((field) => field.maxFieldSize), DEFAULT_MAX_FIELD_SIZE),
+		...(fields.every((field) => maxSizeOf(field) !== undefined) && {
+			fileSize: maxOf(fields.map(maxSizeOf), 0) + 1,
+		}),
+	};
+
+	return (req: Request, res: Response, next: NextFunction) => {
+		if (!req.is('multipart/form-data')) {
+			next(new UnsupportedMediaTypeException({ message: 'Expected multipart/form-data' }));
+			return;
+		}
+
+		let parser: busboy.Busboy;
+		try {
+			parser = busboy({ headers: req.headers, limits });
+		} catch {
+			next(new BadRequestException({ message: 'Malformed multipart body' }));
+			return;
+		}
+
+		const files: Record<string, IUploadedFile[]> = {};
+		const body: Record<string, unknown> = {};
+		const pending: Promise<void>[] = [];
+		const diskWrites: Array<{ path: string; out: WriteStream }> = [];
+		let failed = false;
+
+		const fail = (error: unknown) => {
+			if (failed) return;
+			failed = true;
+			req.unpipe(parser);
+			req.resume();
+			// Yarım kalan disk dosyalarını temizle; dosya stream kapanınca silinir
+			for (const { path, out } of diskWrites) {
+				const remove = () => removeFile(path);
+				if (out.closed) remove();
+				else {
+					out.once('close', remove);
+					out.destroy();
+				}
+			}
+			next(error);
+		};
+
+		parser.on('field', (name, value, info) => {
+			if (info.valueTruncated) {
+				fail(new PayloadTooLargeException({ message: `Field too large: ${name}` }));
+				return;
+			}
+			const current = body[name];
+			if (current === undefined) body[name] = value;
+			else body[name] = Array.isArray(current) ? [...current, value] : [current, value];
+		});
+
+		parser.on('file', (name, stream, info) => {
+			const field = byField.get(name);
+			const list = (files[name] ??= []);
+			const error = !field
+				? new BadRequestException({ message: `Unexpected file field: ${name}` })
+				: list.length >= (field.maxFiles ?? 1)
+					? new PayloadTooLargeException({ message: `Too many files for field: ${name}` })
+					: field.mimeTypes && !matchesMimeType(info.mimeType, field.mimeTypes)
+						? new UnsupportedMediaTypeException({
+								message: `Unsupported file type: ${info.mimeType}`,
+							})
+						: undefined;
+			if (failed || error || !field) {
+				stream.resume();
+				if (error) fail(error);
+				return;
+			}
+
+			const file: IUploadedFile = {
+				fieldName: name,
+				originalName: info.filename,
+				encoding: info.encoding,
+				mimeType: info.mimeType,
+				size: 0,
+			};
+			list.push(file);
+
+			const chunks: Buffer[] = [];
+			const maxSize = maxSizeOf(field);
+			const toDisk = field.storage === 'disk';
+			const out = toDisk
+				? createWriteStream((file.path = join(field.destination ?? tmpdir(), randomUUID())))
+				: undefined;
+			if (out) diskWrites.push({ path: file.path!, out });
+			stream.on('limit', () => {
+				stream.unpipe();
+				stream.resume();
+				fail(new PayloadTooLargeException({ message: `File too large: ${name}` }));
+			});
+			stream.on('data', (chunk: Buffer) => {
+				file.size += chunk.length;
+				if (maxSize !== undefined && file.size > maxSize) {
+					stream.unpipe();
+					stream.resume();
+					fail(new PayloadTooLargeException({ message: `File too large: ${name}` }));
+				} else if (!out) chunks.push(chunk);
+			});
+			pending.push(
+				new Promise<void>((resolve) => {
+					if (out) {
+						out.on('close', resolve);
+						// Yazılamayan hedef (ENOENT, EACCES, ENOSPC) isteği hemen sonlandırır
+						out.on('error', () => {
+							stream.unpipe(out);
+							stream.resume();
+							fail(new InternalServerErrorException({ message: `Could not store file: ${name}` }));
+							resolve();
+						});
+						stream.pipe(out);
+					} else {
+						stream.on('end', () => {
+							file.buffer = Buffer.concat(chunks);
+							resolve();
+						});
+					}
+				})
+			);
+		});
+
+		parser.on('fieldsLimit', () =>
+			fail(new PayloadTooLargeException({ message: 'Too many form fields' }))
+		);
+		parser.on('filesLimit', () =>
+			fail(new PayloadTooLargeException({ message: 'Too many files' }))
+		);
+		parser.on('error', () =>
+			fail(new BadRequestException({ message: 'Malformed multipart body' }))
+		);
+		parser.on('close', () => {
+			Promise.all(pending)
+				.then(() => {
+					if (failed) return;
+					const missing = fields.find((field) => field.required && !files[field.field]?.length);
+					if (missing) {
+						fail(new BadRequestException({ message: `File is required: ${missing.field}` }));
+						return;
+					}
+					req.body = body;
+					req.uploadedFiles = files;
+					res.once('close', () => {
+						if (claimedRequests.has(req)) return;
+						for (const { path } of diskWrites) removeFile(path);
+					});
+					next();
+				})
+				.catch(fail);
+		});
+
+		req.pipe(parser);
+	};
+};
@@ -1,7 +1,11 @@
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
 import { plainToInstance, TransformOptions } from 'class-transformer';
-import { validate, ValidatorOptions } from 'class-validator';
-import HttpException from '../../../expections/http.expection';
+import { validate, ValidationError, ValidatorOptions } from 'class-validator';
+import HttpException, {
+	BadRequestException,
+	IValidationError,
+	ValidationSource,
+} from '../../../expections/http.expection';
 export type IValidation = {
 	body?: any;
 	params?: any;
@@ -12,6 +16,35 @@ export type IValidation = {
 	validatorOptions?: ValidatorOptions;
 	customHttpError?:HttpException;
 };
+
+/**
+ * class-validator hatalarını düzleştirir; iç içe nesneler noktalı yol,
+ * dizi elemanları index ile yazılır (ör. items[2].price).
+ */
+export function flattenValidationErrors(
+	errors: ValidationError[],
+	source?: ValidationSource,
+	parentPath = ''
+): IValidationError[] {
+	const result: IValidationError[] = [];
+	for (const error of errors) {
+		const path = /^\d+$/.test(error.property)
+			? `${parentPath}[${error.property}]`
+			: parentPath
+			? `${parentPath}.${error.property}`
+			: error.property;
+		if (error.constraints && Object.keys(error.constraints).length) {
+			result.push({
+				field: path,
+				errors: Object.values(error.constraints),
+				...(source !== undefined && { source }),
+			});
+		}
+		if (error.children?.length)
+			result.push(...flattenValidationErrors(error.children, source, path));
+	}
+	return result;
+}
 export default function validationMiddleware(
 	ValidationClass: new (...args: any[]) => any,
 	type: keyof IValidation,
@@ -20,9 +53,10 @@ export default function validationMiddleware(
 	validatorOptions?: ValidatorOptions,
 	customHttpError?:HttpException,
 ): RequestHandler {
+
 	const handler: RequestHandler = async (
 		req: Request,
-		res: Response,
+		_res: Response,
 		next: NextFunction
 	): Promise<void> => {
 		try {
@@ -62,19 +96,16 @@ export default function validationMiddleware(
 			});
 
 			if (errors.length > 0) {
-				if(customHttpError){
-					res.status(customHttpError.code).json(customHttpError.messageJson);
-				}
-				else{
-					res.status(400).json({
-						ok: false,
-						message: 'Validation error',
-						errors: errors.map((e) => ({
-							property: e.property,
-							constraints: e.constraints,
-						})),
-					});
-				}
+				next(
+					customHttpError ??
+						new BadRequestException({
+							message: 'Validation error',
+							validationErrors: flattenValidationErrors(
+								errors,
+								type as ValidationSource
+							),
+						})
+				);
 				return; // <-- explicit return
 			}
 			Object.defineProperty(req, type, {
@@ -90,16 +121,19 @@ export default function validationMiddleware(
 			next();
 			return; // <-- explicit return
 		} catch (err: any) {
-			if(customHttpError){
-				res.status(customHttpError.code).json(customHttpError.messageJson);
-			}
-			else{
-				res.status(400).json({
-					ok: false,
-					message: 'Validation middleware failed',
-					error: err?.message ?? String(err),
-				});
-			}
+			next(
+				customHttpError ??
+					new BadRequestException({
+						message: 'Validation middleware failed',
+						validationErrors: [
+							{
+								field: type,
+								errors: [err?.message ?? String(err)],
+								source: type as ValidationSource,
+							},
+						],
+					})
+			);
 			return; // <-- explicit return
 		}
 	};
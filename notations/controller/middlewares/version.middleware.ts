@@ -0,0 +1,18 @@
+import { NextFunction, Request, Response } from 'express';
+import { IVersioningOptions } from '../../../interfaces/versioning.interface';
+import { requestVersion } from '../../../utils/versioning';
+
+/**
+ * header/media-type stratejisinde istenen version route'unkilerden biri değilse
+ * aynı path'teki sıradaki route'a geçer (next('route')).
+ */
+export const versionMiddleware = (
+	versions: string[],
+	versioning: IVersioningOptions
+) => {
+	return (req: Request, _res: Response, next: NextFunction) => {
+		const version = requestVersion(req.headers, versioning);
+		if (version !== undefined && versions.includes(version)) next();
+		else next('route');
+	};
+};
@@ -1,7 +1,28 @@
-import { RequestHandler } from 'express';
+import { Request, RequestHandler, Response } from 'express';
+import type { ServiceIdentifier } from 'inversify';
+import type { PermissionMode } from '../../interfaces/auth.interface';
+import type { PolicyType } from '../../interfaces/policy.interface';
+import type { ExceptionFilterType } from '../../interfaces/exception-filter.interface';
+import type { ErrorDefinition } from '../../expections/error-catalog';
+import type { InterceptorType } from '../../interfaces/interceptor.interface';
+import type { ISerializeConfig } from '../../utils/serialize';
+import type { ResponseValidationMode } from '../../utils/response-validation';
+import type { ClassConstructor } from 'class-transformer';
+import type { ISseOptions } from '../sse';
+import type { IUploadField } from '../../interfaces/upload.interface';
+import type { IVersioningOptions } from '../../interfaces/versioning.interface';
+import type { ParamLocation, PipeType } from '../../interfaces/pipe.interface';
 import { IValidation } from './middlewares/validation.middleware';
 
-export type Method = 'get' | 'post' | 'put' | 'delete' | 'patch';
+export type Method =
+	| 'get'
+	| 'post'
+	| 'put'
+	| 'delete'
+	| 'patch'
+	| 'head'
+	| 'options'
+	| 'all';
 export type IExtraData = Map<string, any>;
 export type ParameterSlot =
 	| 'req'
@@ -10,7 +31,37 @@ export type ParameterSlot =
 	| 'body'
 	| 'query'
 	| 'params'
-	| 'headers';
+	| 'headers'
+	| 'lastEventId';
+
+export type ScopedParameter = {
+	index: number;
+	token: ServiceIdentifier;
+};
+
+/** @file (ilk dosya) ya da @files (liste) parametresi; field verilmezse ilk @upload alanı */
+export type FileParameter = {
+	index: number;
+	field?: string;
+	multiple: boolean;
+};
+
+/** createParamDecorator ile tanımlanan parametre değerini istekten üretir */
+export type CustomParamFactory<TData = any> = (
+	data: TData | undefined,
+	req: Request,
+	res: Response
+) => unknown;
+
+export type CustomParameter = {
+	index: number;
+	factory: CustomParamFactory;
+	data?: unknown;
+	pipes: PipeType[];
+	/** Verilirse parametre Swagger'da bu ad ve konumla listelenir */
+	name?: string;
+	in?: ParamLocation;
+};
 
 export type RequestHandlerWithPreMiddlewareOptions = {
 	handler: RequestHandler;
@@ -119,7 +170,26 @@ export interface RouteOptions {
 	path?: string;
 	validations?: IValidation[];
 	permissions?: string[];
+	permissionMode?: PermissionMode;
+	policies?: PolicyType[];
+	filters?: ExceptionFilterType[];
+	interceptors?: InterceptorType[];
+	/** Dokümantasyon için route'un fırlatabileceği katalog hataları */
+	throws?: ErrorDefinition<any>[];
+	/** Yanıt gövdesinin çıktı DTO'su (bkz. @serialize) */
+	serialize?: ISerializeConfig;
+	/** Handler'ın döndürmesi beklenen DTO (dokümantasyon ve response validation) */
+	responseType?: ClassConstructor<any>;
+	/** Dokümante edilen başarılı status kodları; ilki düz dönüşlerde yanıt status'u olur (bkz. @responseStatus) */
+	statusCodes?: HttpStatusCode[];
+	/** Route yanıtı text/event-stream olarak akıtılır (bkz. @sse) */
+	sse?: ISseOptions;
+	/** multipart/form-data ile kabul edilen dosya alanları (bkz. @upload) */
+	uploads?: IUploadField[];
+	/** Route'un hizmet verdiği API version'ları (bkz. @version) */
+	versions?: string[];
 	authenticated?: boolean;
+	authStrategies?: string[];
 	otherHttpMiddlewares?: RequestHandlerWithPreMiddlewareOptions[];
 	extraData?: IExtraData;
 	name?: string;
@@ -131,15 +201,30 @@ export interface RouteOptions {
 export interface RouteDefinition extends RouteOptions {
 	methodName: string;
 	parameterIndices?: Partial<Record<ParameterSlot, number>>;
+	scopedParameters?: ScopedParameter[];
+	fileParameters?: FileParameter[];
+	customParameters?: CustomParameter[];
 }
 
 export interface RouteDefinitions {
 	basePath: string;
 	controllerName?: string;
 	moduleName?: string;
+	controllerOptions?: RouteOptions;
 	routes: RouteDefinition[];
 }
 
+export interface IRouterOptions {
+	defaultAuthStrategy?: string;
+	authorizationHeaderFallback?: boolean;
+	/** Tüm route'ları saran, controller/method interceptor'larından önce çalışan interceptor'lar */
+	interceptors?: InterceptorType[];
+	responseValidation?: ResponseValidationMode;
+	versioning?: IVersioningOptions;
+	/** false ise 405 router'ı bağlanmaz; App onu afterRoutes'tan sonra kendisi bağlar */
+	methodNotAllowed?: boolean;
+}
+
 export interface IControllerClassConstructor {
 	new (...args: any[]): any;
 	__routeDefinitions?: RouteDefinitions;
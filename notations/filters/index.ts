@@ -0,0 +1,28 @@
+import 'reflect-metadata';
+import HttpException from '../../expections/http.expection';
+
+export type ErrorType = abstract new (...args: any[]) => unknown;
+
+export const keyOfCatch = Symbol('catch');
+
+/**
+ * Exception filter'ın yakaladığı hata tipleri; tip verilmezse tüm hatalar.
+ * `catch` ayrılmış kelime olduğu için dekoratör adı catchError'dır.
+ */
+export function catchError(...errorTypes: ErrorType[]) {
+	return function (target: Function) {
+		Reflect.defineMetadata(keyOfCatch, errorTypes, target);
+	};
+}
+export const Catch = catchError;
+
+export function getCaughtErrorTypes(filter: object): ErrorType[] {
+	return Reflect.getMetadata(keyOfCatch, filter.constructor) ?? [];
+}
+
+/** Tipsiz (catch-all) filtreler HttpException'ları yakalamaz */
+export function canCatch(filter: object, error: unknown): boolean {
+	const types = getCaughtErrorTypes(filter);
+	if (!types.length) return !(error instanceof HttpException);
+	return types.some((type) => error instanceof type);
+}
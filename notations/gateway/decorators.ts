@@ -0,0 +1,65 @@
+import 'reflect-metadata';
+import type { IGateway, IGatewayServer } from '../../interfaces/gateway.interface';
+import { autoBind } from '../../container';
+import { MINI_TYPES } from '../../types';
+
+export const keyOfGatewayPath = Symbol('gatewayPath');
+export const keyOfMessageHandlers = Symbol('messageHandlers');
+
+export type MessageHandlerDefinition = {
+	event: string;
+	methodName: string;
+};
+
+export class Gateway implements IGateway {
+	path: string;
+	server!: IGatewayServer;
+
+	constructor() {
+		this.path = Reflect.getMetadata(keyOfGatewayPath, this.constructor);
+	}
+}
+
+/**
+ * WebSocket gateway sınıfı; HTTP sunucusunun upgrade isteklerinden path'i
+ * eşleşenleri karşılar. Sınıf seviyesindeki @authenticated/@authorized
+ * handshake sırasında uygulanır.
+ */
+export function gateway(path: string) {
+	return function <T extends { new (...args: any[]): Gateway }>(constructor: T) {
+		Reflect.defineMetadata(keyOfGatewayPath, path, constructor);
+		if ((globalThis as any).MINI_AUTOLOAD) {
+			return autoBind(MINI_TYPES.IGateway)(constructor);
+		}
+		return constructor;
+	};
+}
+
+/** { event, data } mesajlarını handler(data, client) metoduna yönlendirir */
+export function onMessage(event: string) {
+	return (target: any, propertyKey: string, _descriptor?: PropertyDescriptor) => {
+		const existing: MessageHandlerDefinition[] =
+			Reflect.getOwnMetadata(keyOfMessageHandlers, target.constructor) ?? [];
+		Reflect.defineMetadata(
+			keyOfMessageHandlers,
+			[...existing, { event, methodName: propertyKey }],
+			target.constructor
+		);
+	};
+}
+
+/** Prototype zinciri boyunca tanımlı mesaj handler'ları; alt sınıf önceliklidir */
+export function getMessageHandlers(ctor: any): MessageHandlerDefinition[] {
+	const handlers = new Map<string, MessageHandlerDefinition>();
+	for (
+		let current = ctor;
+		current && current !== Function.prototype;
+		current = Object.getPrototypeOf(current)
+	) {
+		const own: MessageHandlerDefinition[] =
+			Reflect.getOwnMetadata(keyOfMessageHandlers, current) ?? [];
+		for (const handler of own)
+			if (!handlers.has(handler.event)) handlers.set(handler.event, handler);
+	}
+	return Array.from(handlers.values());
+}
@@ -0,0 +1,352 @@
+import { randomUUID } from 'crypto';
+import {
+	IncomingMessage,
+	Server,
+	ServerResponse,
+	STATUS_CODES,
+} from 'http';
+import type { Duplex } from 'stream';
+import type { Request, RequestHandler, Response } from 'express';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import type {
+	IGateway,
+	IGatewayBroadcaster,
+	IGatewayClient,
+	IGatewayMessage,
+	IGatewayServer,
+} from '../../interfaces/gateway.interface';
+import HttpException, {
+	BadRequestException,
+	NotFoundException,
+} from '../../expections/http.expection';
+import { CoreErrors } from '../../expections/error-catalog';
+import { DEFAULT_AUTH_STRATEGY } from '../../auth/gateway.strategy';
+import { authenticationMiddleware } from '../controller/middlewares/authenticated.middleware';
+import { authorizedMiddleware } from '../controller/middlewares/authorized.middleware';
+import validationMiddleware from '../controller/middlewares/validation.middleware';
+import {
+	getRouteOptions,
+	keyOfControllerOptions,
+} from '../controller/index';
+import type { RouteOptions } from '../controller/rest.types';
+import { getMessageHandlers } from './decorators';
+
+export interface IGatewayOptions {
+	defaultAuthStrategy?: string;
+	authorizationHeaderFallback?: boolean;
+}
+
+type MessageHandler = (client: GatewayClient, data: unknown) => Promise<unknown>;
+
+/** Express middleware'ini handshake/mesaj bağlamında promise olarak çalıştırır */
+const runMiddleware = (mw: RequestHandler, req: Request, res: Response) =>
+	new Promise<void>((resolve, reject) => {
+		try {
+			const result: unknown = mw(req, res, (error?: unknown) =>
+				error ? reject(error) : resolve()
+			);
+			if (result instanceof Promise) result.catch(reject);
+		} catch (error) {
+			reject(error);
+		}
+	});
+
+const toHttpException = (error: unknown): HttpException => {
+	if (error instanceof HttpException) return error;
+	console.error('Unexpected gateway error:', error);
+	return CoreErrors.Internal.create();
+};
+
+class GatewayClient implements IGatewayClient {
+	readonly id = randomUUID();
+	private readonly joined = new Set<string>();
+
+	constructor(
+		readonly socket: WebSocket,
+		readonly request: IncomingMessage,
+		private readonly server: GatewayServer
+	) {}
+
+	get user() {
+		return (this.request as Request).user;
+	}
+
+	get rooms(): ReadonlySet<string> {
+		return this.joined;
+	}
+
+	send(event: string, data?: unknown, id?: IGatewayMessage['id']) {
+		if (this.socket.readyState !== WebSocket.OPEN) return;
+		const message: IGatewayMessage = {
+			event,
+			...(data !== undefined && { data }),
+			...(id !== undefined && { id }),
+		};
+		this.socket.send(JSON.stringify(message));
+	}
+
+	join(room: string) {
+		this.joined.add(room);
+		this.server.addToRoom(room, this);
+	}
+
+	leave(room: string) {
+		this.joined.delete(room);
+		this.server.removeFromRoom(room, this);
+	}
+
+	to(room: string): IGatewayBroadcaster {
+		return this.server.broadcaster(room, this);
+	}
+
+	close(code?: number, reason?: string) {
+		this.socket.close(code, reason);
+	}
+}
+
+class GatewayServer implements IGatewayServer {
+	readonly path: string;
+	readonly clients = new Set<GatewayClient>();
+	private readonly rooms = new Map<string, Set<GatewayClient>>();
+	private readonly wss = new WebSocketServer({ noServer: true });
+	private readonly handshakeMiddlewares: RequestHandler[];
+	private readonly handlers = new Map<string, MessageHandler>();
+
+	constructor(
+		private readonly instance: IGateway,
+		private readonly options: IGatewayOptions
+	) {
+		this.path = instance.path;
+		const ctor = instance.constructor;
+		const gatewayOptions: RouteOptions =
+			Reflect.getMetadata(keyOfControllerOptions, ctor) ?? {};
+		this.handshakeMiddlewares = [
+			this.authenticationFor(gatewayOptions),
+			this.authorizationFor(gatewayOptions),
+		].filter((mw): mw is RequestHandler => mw !== undefined);
+		for (const { event, methodName } of getMessageHandlers(ctor)) {
+			const routeOptions =
+				getRouteOptions(ctor, methodName) ?? gatewayOptions;
+			this.handlers.set(event, this.compileHandler(methodName, routeOptions));
+		}
+		instance.server = this;
+	}
+
+	emit(event: string, data?: unknown) {
+		this.clients.forEach((client) => client.send(event, data));
+	}
+
+	to(room: string): IGatewayBroadcaster {
+		return this.broadcaster(room);
+	}
+
+	roomSize(room: string) {
+		return this.rooms.get(room)?.size ?? 0;
+	}
+
+	broadcaster(room: string, except?: GatewayClient): IGatewayBroadcaster {
+		return {
+			emit: (event, data) => {
+				this.rooms.get(room)?.forEach((client) => {
+					if (client !== except) client.send(event, data);
+				});
+			},
+		};
+	}
+
+	addToRoom(room: string, client: GatewayClient) {
+		if (!this.rooms.has(room)) this.rooms.set(room, new Set());
+		this.rooms.get(room)!.add(client);
+	}
+
+	removeFromRoom(room: string, client: GatewayClient) {
+		const members = this.rooms.get(room);
+		members?.delete(client);
+		if (members && !members.size) this.rooms.delete(room);
+	}
+
+	async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+		const request = req as Request;
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		// Query tabanlı stratejiler (ör. ApiKeyStrategy) için
+		(request as any).query = Object.fromEntries(url.searchParams);
+		const res = new ServerResponse(req) as unknown as Response;
+		try {
+			for (const mw of this.handshakeMiddlewares)
+				await runMiddleware(mw, request, res);
+		} catch (error) {
+			const exception = toHttpException(error);
+			const body = JSON.stringify(exception.messageJson);
+			const headers = {
+				...res.getHeaders(),
+				'Content-Type': 'application/json',
+				'Content-Length': Buffer.byteLength(body),
+				Connection: 'close',
+			};
+			socket.end(
+				`HTTP/1.1 ${exception.code} ${STATUS_CODES[exception.code]}\r\n` +
+					Object.entries(headers)
+						.map(([key, value]) => `${key}: ${value}`)
+						.join('\r\n') +
+					`\r\n\r\n${body}`
+			);
+			return;
+		}
+		this.wss.handleUpgrade(req, socket, head, (ws) => this.connect(ws, req));
+	}
+
+	/** Bağlı istemcileri 1001 ile kapatır, yanıt vermeyenleri sonlandırır */
+	async close() {
+		await Promise.all(
+			Array.from(this.clients, (client) => {
+				if (client.socket.readyState === WebSocket.CLOSED) return undefined;
+				return new Promise<void>((resolve) => {
+					const timer = setTimeout(() => client.socket.terminate(), 1000);
+					timer.unref();
+					client.socket.once('close', () => {
+						clearTimeout(timer);
+						resolve();
+					});
+					client.close(1001, 'Server shutting down');
+				});
+			})
+		);
+		await new Promise((resolve) => this.wss.close(resolve));
+	}
+
+	private async connect(ws: WebSocket, req: IncomingMessage) {
+		const client = new GatewayClient(ws, req, this);
+		this.clients.add(client);
+		ws.on('message', (raw, isBinary) => void this.handleMessage(client, raw, isBinary));
+		ws.on('error', () => ws.terminate());
+		ws.on('close', (code, reason) => {
+			this.clients.delete(client);
+			client.rooms.forEach((room) => this.removeFromRoom(room, client));
+			// Bağlantı zaten kapandı; hook hatası yalnızca loglanır
+			this.callHook('onDisconnect', client, code, reason.toString()).catch((error) =>
+				console.error('Gateway onDisconnect failed:', error)
+			);
+		});
+		try {
+			await this.callHook('onConnection', client);
+		} catch (error) {
+			const exception = toHttpException(error);
+			client.send('error', exception.messageJson);
+			client.close(exception.code < 500 ? 1008 : 1011);
+		}
+	}
+
+	private async handleMessage(client: GatewayClient, raw: RawData, isBinary: boolean) {
+		let message: IGatewayMessage | undefined;
+		try {
+			message = isBinary ? undefined : JSON.parse(raw.toString());
+		} catch {
+			message = undefined;
+		}
+		if (!message || typeof message.event !== 'string') {
+			client.send('error', new BadRequestException({ message: 'Invalid message' }).messageJson);
+			return;
+		}
+
+		try {
+			const handler = this.handlers.get(message.event);
+			if (!handler)
+				throw new NotFoundException({ message: `Unknown event: ${message.event}` });
+			const result = await handler(client, message.data);
+			if (result !== undefined) client.send(message.event, result, message.id);
+		} catch (error) {
+			client.send('error', toHttpException(error).messageJson, message.id);
+		}
+	}
+
+	private authenticationFor(options: RouteOptions): RequestHandler | undefined {
+		if (!options.authenticated) return undefined;
+		return authenticationMiddleware(
+			options.authStrategies ?? [
+				this.options.defaultAuthStrategy ?? DEFAULT_AUTH_STRATEGY,
+			]
+		);
+	}
+
+	private authorizationFor(options: RouteOptions): RequestHandler | undefined {
+		if (!options.permissions?.length) return undefined;
+		return authorizedMiddleware(options.permissions, {
+			...(options.permissionMode !== undefined && {
+				mode: options.permissionMode,
+			}),
+			...(this.options.authorizationHeaderFallback !== undefined && {
+				headerFallback: this.options.authorizationHeaderFallback,
+			}),
+		}) as RequestHandler;
+	}
+
+	private compileHandler(methodName: string, options: RouteOptions): MessageHandler {
+		const authentication = this.authenticationFor(options);
+		const authorization = this.authorizationFor(options);
+		const validations = (options.validations ?? [])
+			.filter((v) => v.body)
+			.map((v) =>
+				validationMiddleware(
+					v.body,
+					'body',
+					v.logging,
+					v.transformOptions,
+					v.validatorOptions,
+					v.customHttpError
+				)
+			);
+		const handler = (this.instance as any)[methodName].bind(this.instance);
+
+		return async (client, data) => {
+			const request = client.request as Request;
+			const res = new ServerResponse(client.request) as unknown as Response;
+			// Handshake'te doğrulanan kullanıcı her mesajda yeniden doğrulanmaz
+			if (authentication && !request.user)
+				await runMiddleware(authentication, request, res);
+			if (authorization) await runMiddleware(authorization, request, res);
+
+			let payload = data;
+			if (validations.length) {
+				const messageRequest = { body: data, headers: request.headers } as Request;
+				for (const mw of validations) await runMiddleware(mw, messageRequest, res);
+				// validationMiddleware dönüştürülmüş DTO instance'ını body'ye yazar
+				payload = messageRequest.body;
+			}
+			return handler(payload, client);
+		};
+	}
+
+	private async callHook(hook: 'onConnection' | 'onDisconnect', ...args: unknown[]) {
+		const instance = this.instance as any;
+		if (typeof instance[hook] === 'function') await instance[hook](...args);
+	}
+}
+
+/**
+ * Gateway'leri HTTP sunucusunun upgrade event'ine bağlar; dönen fonksiyon
+ * bağlantıları kapatıp dinleyiciyi kaldırır.
+ */
+export function attachGateways(
+	server: Server,
+	gateways: IGateway[],
+	options: IGatewayOptions = {}
+): () => Promise<void> {
+	const servers = gateways.map((instance) => {
+		if (!instance.path)
+			throw new Error(`Gateway path is required for ${instance.constructor.name}`);
+		return new GatewayServer(instance, options);
+	});
+	const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+		const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+		const target = servers.find((item) => item.path === pathname);
+		if (target) void target.handleUpgrade(req, socket, head);
+		// Başka upgrade dinleyicisi yoksa eşleşmeyen istek açıkta kalmasın
+		else if (server.listenerCount('upgrade') === 1) socket.destroy();
+	};
+	server.on('upgrade', onUpgrade);
+
+	return async () => {
+		server.off('upgrade', onUpgrade);
+		await Promise.all(servers.map((item) => item.close()));
+	};
+}
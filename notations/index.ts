@@ -1,2 +1,7 @@
 export * from './controller/index';
 export * from './controller/rest.types';
+export * from './filters';
+export * from './interceptors';
+export * from './sse';
+export * from './gateway';
+export * from './pipes';
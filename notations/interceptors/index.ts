@@ -0,0 +1,29 @@
+import {
+	CallHandler,
+	IExecutionContext,
+	IInterceptor,
+	InterceptorType,
+} from '../../interfaces/interceptor.interface';
+import { resolveInRequest } from '../../container';
+import { IScopedRequest } from '../controller/interfaces/scoped-request.interface';
+
+/**
+ * Interceptor'ları soğan modeliyle çalıştırır: listedeki ilk interceptor en
+ * dışta kalır, handler en içte çağrılır.
+ */
+export async function runInterceptors(
+	interceptors: InterceptorType[],
+	context: IExecutionContext,
+	handler: (...args: any[]) => unknown
+): Promise<unknown> {
+	let call: CallHandler = async () => handler(...context.args);
+	for (const token of [...interceptors].reverse()) {
+		const interceptor = resolveInRequest<IInterceptor>(
+			(context.req as IScopedRequest).container,
+			token
+		);
+		const next = call;
+		call = async () => interceptor.intercept(context, next);
+	}
+	return call();
+}
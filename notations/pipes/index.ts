@@ -0,0 +1,30 @@
+import type { Container } from 'inversify';
+import type {
+	IParamMetadata,
+	IPipeTransform,
+	PipeType,
+} from '../../interfaces/pipe.interface';
+import { resolveInRequest } from '../../container';
+
+export * from './pipe-validation-error';
+export * from './parse.pipes';
+
+const isPipeInstance = (pipe: PipeType): pipe is IPipeTransform =>
+	typeof pipe === 'object' && pipe !== null && typeof (pipe as any).transform === 'function';
+
+/** Instance olduğu gibi kullanılır, sınıf/token istek container'ından çözülür */
+export function resolvePipe(pipe: PipeType, requestContainer?: Container): IPipeTransform {
+	return isPipeInstance(pipe) ? pipe : resolveInRequest(requestContainer, pipe);
+}
+
+export async function runPipes(
+	pipes: PipeType[],
+	value: unknown,
+	metadata: IParamMetadata,
+	requestContainer?: Container
+): Promise<unknown> {
+	let current = value;
+	for (const pipe of pipes)
+		current = await resolvePipe(pipe, requestContainer).transform(current, metadata);
+	return current;
+}
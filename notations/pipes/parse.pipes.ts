@@ -0,0 +1,120 @@
+import { injectable, unmanaged } from 'inversify';
+import type {
+	IParamMetadata,
+	IPipeTransform,
+} from '../../interfaces/pipe.interface';
+import { pipeValidationError } from './pipe-validation-error';
+
+export interface IParsePipeOptions {
+	/** undefined ya da boş değer hata vermeden undefined olarak geçer */
+	optional?: boolean;
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+const nameOf = (metadata: IParamMetadata) => metadata.name ?? 'value';
+
+@injectable()
+export class ParseIntPipe implements IPipeTransform<unknown, number | undefined> {
+	constructor(@unmanaged() private readonly options: IParsePipeOptions = {}) {}
+
+	transform(value: unknown, metadata: IParamMetadata) {
+		if (this.options.optional && isMissing(value)) return undefined;
+		const text = typeof value === 'number' ? String(value) : value;
+		if (typeof text !== 'string' || !/^[-+]?\d+$/.test(text.trim()))
+			throw pipeValidationError(metadata, `${nameOf(metadata)} must be an integer`);
+		return Number.parseInt(text, 10);
+	}
+
+	applySchema(schema: Record<string, unknown>) {
+		return { ...schema, type: 'integer' };
+	}
+}
+
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@injectable()
+export class ParseUUIDPipe implements IPipeTransform<unknown, string | undefined> {
+	constructor(@unmanaged() private readonly options: IParsePipeOptions = {}) {}
+
+	transform(value: unknown, metadata: IParamMetadata) {
+		if (this.options.optional && isMissing(value)) return undefined;
+		if (typeof value !== 'string' || !UUID_PATTERN.test(value))
+			throw pipeValidationError(metadata, `${nameOf(metadata)} must be a UUID`);
+		return value;
+	}
+
+	applySchema(schema: Record<string, unknown>) {
+		return { ...schema, type: 'string', format: 'uuid' };
+	}
+}
+
+const TRUE_VALUES = new Set(['true', '1']);
+const FALSE_VALUES = new Set(['false', '0']);
+
+@injectable()
+export class ParseBoolPipe implements IPipeTransform<unknown, boolean | undefined> {
+	constructor(@unmanaged() private readonly options: IParsePipeOptions = {}) {}
+
+	transform(value: unknown, metadata: IParamMetadata) {
+		if (this.options.optional && isMissing(value)) return undefined;
+		if (typeof value === 'boolean') return value;
+		const text = String(value).toLowerCase();
+		if (TRUE_VALUES.has(text)) return true;
+		if (FALSE_VALUES.has(text)) return false;
+		throw pipeValidationError(metadata, `${nameOf(metadata)} must be a boolean`);
+	}
+
+	applySchema(schema: Record<string, unknown>) {
+		return { ...schema, type: 'boolean' };
+	}
+}
+
+/** TypeScript enum'u ya da { KEY: value } nesnesi; değer enum değerine çevrilir */
+@injectable()
+export class ParseEnumPipe<T extends Record<string, string | number>>
+	implements IPipeTransform<unknown, T[keyof T] | undefined>
+{
+	private readonly values: Array<T[keyof T]>;
+
+	constructor(
+		@unmanaged() enumType: T,
+		@unmanaged() private readonly options: IParsePipeOptions = {}
+	) {
+		// Sayısal enum'lardaki ters eşlemeleri (0 → 'A') atla
+		this.values = Object.keys(enumType)
+			.filter((key) => Number.isNaN(Number(key)))
+			.map((key) => enumType[key] as T[keyof T]);
+	}
+
+	transform(value: unknown, metadata: IParamMetadata) {
+		if (this.options.optional && isMissing(value)) return undefined;
+		const match = this.values.find((item) => String(item) === String(value));
+		if (match === undefined)
+			throw pipeValidationError(
+				metadata,
+				`${nameOf(metadata)} must be one of: ${this.values.join(', ')}`
+			);
+		return match;
+	}
+
+	applySchema(schema: Record<string, unknown>) {
+		const numeric = this.values.every((item) => typeof item === 'number');
+		return { ...schema, type: numeric ? 'number' : 'string', enum: this.values };
+	}
+}
+
+/** Değer yoksa (undefined, null, NaN) varsayılanı kullanır; parse pipe'larından önce yazılır */
+@injectable()
+export class DefaultValuePipe<T> implements IPipeTransform<unknown, unknown> {
+	constructor(@unmanaged() private readonly defaultValue: T) {}
+
+	transform(value: unknown) {
+		if (value === undefined || value === null || Number.isNaN(value)) return this.defaultValue;
+		return value;
+	}
+
+	applySchema(schema: Record<string, unknown>) {
+		return { ...schema, default: this.defaultValue };
+	}
+}
@@ -0,0 +1,29 @@
+import type { IParamMetadata } from '../../interfaces/pipe.interface';
+import {
+	BadRequestException,
+	ValidationSource,
+} from '../../expections/http.expection';
+
+const SOURCES: Partial<Record<NonNullable<IParamMetadata['in']>, ValidationSource>> = {
+	path: 'params',
+	query: 'query',
+	header: 'headers',
+};
+
+/** Pipe hataları @validate ile aynı IValidationError biçiminde döner */
+export function pipeValidationError(
+	metadata: IParamMetadata,
+	message: string
+): BadRequestException {
+	const source = metadata.in ? SOURCES[metadata.in] : undefined;
+	return new BadRequestException({
+		message: 'Validation error',
+		validationErrors: [
+			{
+				field: metadata.name ?? 'value',
+				errors: [message],
+				...(source !== undefined && { source }),
+			},
+		],
+	});
+}
@@ -0,0 +1,165 @@
+import type { Request, Response } from 'express';
+import HttpException from '../../expections/http.expection';
+
+export interface ISseEvent<T = unknown> {
+	data: T;
+	event?: string;
+	id?: string | number;
+	/** İstemcinin yeniden bağlanma süresi (ms) */
+	retry?: number;
+}
+
+/** rxjs Observable ile uyumlu asgari arayüz */
+export interface IObservableLike<T> {
+	subscribe(observer: {
+		next: (value: T) => void;
+		error: (error: unknown) => void;
+		complete: () => void;
+	}): { unsubscribe(): void };
+}
+
+export type SseSource<T = unknown> =
+	| AsyncIterable<T | ISseEvent<T>>
+	| Iterable<T | ISseEvent<T>>
+	| IObservableLike<T | ISseEvent<T>>;
+
+export interface ISseOptions {
+	/** Heartbeat yorum satırı aralığı (ms), 0 ile kapatılır. Varsayılan: 15000 */
+	heartbeat?: number;
+}
+
+export const isObservableLike = (value: unknown): value is IObservableLike<unknown> =>
+	!!value && typeof (value as any).subscribe === 'function';
+
+/** Observable'ı kuyruklu bir async iterable'a çevirir; return() aboneliği bitirir */
+function fromObservable<T>(observable: IObservableLike<T>): AsyncIterable<T> {
+	return {
+		[Symbol.asyncIterator]() {
+			const queue: T[] = [];
+			let done = false;
+			let failure: { error: unknown } | undefined;
+			let wake: (() => void) | undefined;
+			const notify = () => {
+				wake?.();
+				wake = undefined;
+			};
+			const subscription = observable.subscribe({
+				next: (value) => {
+					queue.push(value);
+					notify();
+				},
+				error: (error) => {
+					failure = { error };
+					notify();
+				},
+				complete: () => {
+					done = true;
+					notify();
+				},
+			});
+
+			return {
+				async next(): Promise<IteratorResult<T>> {
+					while (!queue.length && !done && !failure)
+						await new Promise<void>((resolve) => (wake = resolve));
+					if (queue.length) return { value: queue.shift()!, done: false };
+					if (failure) throw failure.error;
+					return { value: undefined, done: true };
+				},
+				async return(): Promise<IteratorResult<T>> {
+					done = true;
+					queue.length = 0;
+					subscription.unsubscribe();
+					// Bekleyen next() çağrısı da sonlanmalı
+					notify();
+					return { value: undefined, done: true };
+				},
+			};
+		},
+	};
+}
+
+const isSseEvent = (value: unknown): value is ISseEvent =>
+	!!value && typeof value === 'object' && 'data' in value;
+
+export function formatSseEvent(value: unknown): string {
+	const event: ISseEvent = isSseEvent(value) ? value : { data: value };
+	let message = '';
+	if (event.id !== undefined) message += `id: ${event.id}\n`;
+	if (event.event !== undefined) message += `event: ${event.event}\n`;
+	if (event.retry !== undefined) message += `retry: ${event.retry}\n`;
+	const data =
+		typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+	for (const line of String(data).split(/\r?\n/)) message += `data: ${line}\n`;
+	return `${message}\n`;
+}
+
+/** Last-Event-ID header'ı (yeniden bağlanan istemcinin son aldığı olay) */
+export const getLastEventId = (req: Request): string | undefined => {
+	const value = req.headers['last-event-id'];
+	return typeof value === 'string' && value.length ? value : undefined;
+};
+
+/**
+ * Kaynağı text/event-stream olarak yazar. İstemci bağlantıyı kapatırsa
+ * iterator return() ile kapatılır (generator finally blokları çalışır).
+ */
+export async function sendServerSentEvents(
+	res: Response,
+	source: SseSource,
+	options: ISseOptions = {}
+): Promise<void> {
+	const iterable: AsyncIterable<unknown> | Iterable<unknown> = isObservableLike(source)
+		? fromObservable(source)
+		: source;
+	const iterator =
+		Symbol.asyncIterator in iterable
+			? (iterable as AsyncIterable<unknown>)[Symbol.asyncIterator]()
+			: (iterable as Iterable<unknown>)[Symbol.iterator]();
+
+	res.status(200);
+	res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+	res.setHeader('Cache-Control', 'no-cache, no-transform');
+	res.setHeader('Connection', 'keep-alive');
+	res.setHeader('X-Accel-Buffering', 'no');
+	res.flushHeaders();
+
+	let closed = false;
+	const heartbeatInterval = options.heartbeat ?? 15000;
+	const heartbeat =
+		heartbeatInterval > 0
+			? setInterval(() => res.write(': heartbeat\n\n'), heartbeatInterval)
+			: undefined;
+	heartbeat?.unref();
+
+	const cleanup = () => {
+		if (closed) return;
+		closed = true;
+		if (heartbeat) clearInterval(heartbeat);
+		void Promise.resolve(iterator.return?.()).catch(() => undefined);
+	};
+	// req 'close' gövde okunduğunda da tetiklenir, bağlantı kopuşu için res dinlenir
+	res.on('close', cleanup);
+
+	try {
+		while (!closed) {
+			const result = await iterator.next();
+			if (result.done || closed) break;
+			res.write(formatSseEvent(result.value));
+		}
+	} catch (error) {
+		if (!closed) {
+			const message =
+				error instanceof HttpException
+					? error.messageJson
+					: { message: 'Some error happen' };
+			if (!(error instanceof HttpException)) console.error('SSE stream error:', error);
+			res.write(formatSseEvent({ event: 'error', data: message }));
+		}
+	} finally {
+		res.off('close', cleanup);
+		if (heartbeat) clearInterval(heartbeat);
+		closed = true;
+		if (!res.writableEnded) res.end();
+	}
+}
@@ -1,24 +1,84 @@
-import type { Response } from 'express';
+import type { CookieOptions, NextFunction, Response } from 'express';
+import { createReadStream, promises as fs } from 'fs';
+import { basename, extname } from 'path';
+import { Readable } from 'stream';
+import type { ClassConstructor } from 'class-transformer';
+import type { HttpStatusCode } from './notations/controller/rest.types';
+import {
+	ISerializeConfig,
+	ISerializeOptions,
+	serializeResponse,
+} from './utils/serialize';
+import { contentDisposition, DispositionType } from './utils/content-disposition';
+import { NotFoundException } from './expections/http.expection';
+
+export type RedirectStatusCode = 301 | 302 | 303 | 307 | 308;
+
+export interface IResponseCookie {
+	name: string;
+	/** undefined ise cookie temizlenir */
+	value?: string;
+	options?: CookieOptions;
+}
+
+/** Buffer, Readable stream ya da diskteki dosya yolu */
+export type FileSource = Buffer | Readable | string;
+
+export interface IFileOptions {
+	filename?: string;
+	contentType?: string;
+	/** Varsayılan: filename varsa attachment, yoksa header eklenmez */
+	disposition?: DispositionType;
+	/** Boyutu bilinen stream'ler için; Range desteği de bununla açılır */
+	contentLength?: number;
+}
 
 export interface IResponseBuilder<T = any> {
 	status: number;
 	data: T;
 	headers: Record<string, string>;
+	cookies: IResponseCookie[];
 	isFile: boolean;
+	serialization?: ISerializeConfig;
+	fileSource?: { source: FileSource; options: IFileOptions };
 
 	ok(data: T): IResponseBuilder<T>;
-	created(data: T): IResponseBuilder<T>;
+	created(data: T, location?: string): IResponseBuilder<T>;
+	accepted(data?: T): IResponseBuilder<T>;
+	noContent(): IResponseBuilder<T>;
+	redirect(url: string, code?: RedirectStatusCode): IResponseBuilder<T>;
+	setStatus(code: HttpStatusCode): IResponseBuilder<T>;
+	location(url: string): IResponseBuilder<T>;
+	cookie(name: string, value: string, options?: CookieOptions): IResponseBuilder<T>;
+	clearCookie(name: string, options?: CookieOptions): IResponseBuilder<T>;
 	setHeader(key: string, value: string): IResponseBuilder<T>;
 	setHeaders(headers: Record<string, string>): IResponseBuilder<T>;
 	asFile(): IResponseBuilder<T>;
-	build(res: Response): void;
+	file(source: FileSource, options?: IFileOptions): IResponseBuilder<T>;
+	serialize(type: ClassConstructor<any>, options?: ISerializeOptions): IResponseBuilder<T>;
+	build(res: Response, next?: NextFunction): void | Promise<void>;
 }
 
+/** Hata durumunda error handler'a temiz yanıt bırakmak için geri alınan header'lar */
+const FILE_HEADERS = [
+	'Content-Type',
+	'Content-Length',
+	'Content-Disposition',
+	'Content-Range',
+	'Accept-Ranges',
+];
+
+/** Gövdesi olmayan status kodları */
+const EMPTY_BODY_STATUSES = new Set<number>([204, 205, 304]);
+
 export class ResponseBuilder<T> implements IResponseBuilder<T> {
 	public status: number = 200;
 	public data!: T;
 	public headers: Record<string, string> = {};
+	public cookies: IResponseCookie[] = [];
 	public isFile: boolean = false;
+	public serialization?: ISerializeConfig;
+	public fileSource?: { source: FileSource; options: IFileOptions };
 
 	ok(data: T): ResponseBuilder<T> {
 		this.status = 200;
@@ -26,9 +86,46 @@ export class ResponseBuilder<T> implements IResponseBuilder<T> {
 		return this;
 	}
 
-	created(data: T): ResponseBuilder<T> {
+	created(data: T, location?: string): ResponseBuilder<T> {
 		this.status = 201;
 		this.data = data;
+		if (location !== undefined) this.location(location);
+		return this;
+	}
+
+	accepted(data?: T): ResponseBuilder<T> {
+		this.status = 202;
+		if (data !== undefined) this.data = data;
+		return this;
+	}
+
+	noContent(): ResponseBuilder<T> {
+		this.status = 204;
+		this.data = undefined as T;
+		return this;
+	}
+
+	redirect(url: string, code: RedirectStatusCode = 302): ResponseBuilder<T> {
+		this.status = code;
+		return this.location(url);
+	}
+
+	setStatus(code: HttpStatusCode): ResponseBuilder<T> {
+		this.status = code;
+		return this;
+	}
+
+	location(url: string): ResponseBuilder<T> {
+		return this.setHeader('Location', url);
+	}
+
+	cookie(name: string, value: string, options?: CookieOptions): ResponseBuilder<T> {
+		this.cookies.push({ name, value, ...(options && { options }) });
+		return this;
+	}
+
+	clearCookie(name: string, options?: CookieOptions): ResponseBuilder<T> {
+		this.cookies.push({ name, ...(options && { options }) });
 		return this;
 	}
 
@@ -47,15 +144,122 @@ export class ResponseBuilder<T> implements IResponseBuilder<T> {
 		return this;
 	}
 
-	build(res: Response): void {
+	/** Buffer, stream veya dosya yolunu (Range destekli) gönderir */
+	file(source: FileSource, options: IFileOptions = {}): ResponseBuilder<T> {
+		this.fileSource = { source, options };
+		return this;
+	}
+
+	/** build sırasında data'yı çıktı DTO'su ile serialize eder */
+	serialize(
+		type: ClassConstructor<any>,
+		options: ISerializeOptions = {}
+	): ResponseBuilder<T> {
+		this.serialization = { ...options, type };
+		return this;
+	}
+
+	build(res: Response, next?: NextFunction): void | Promise<void> {
 		Object.entries(this.headers).forEach(([key, value]) => {
 			res.setHeader(key, value);
 		});
+		for (const { name, value, options } of this.cookies) {
+			if (value === undefined) res.clearCookie(name, options);
+			else res.cookie(name, value, options ?? {});
+		}
+		res.status(this.status);
 
-		if (this.isFile && this.data) {
-			res.status(this.status).send(this.data);
+		if (this.fileSource) {
+			return this.sendFile(res, this.fileSource.source, this.fileSource.options, next);
+		}
+		if (EMPTY_BODY_STATUSES.has(this.status) || this.data === undefined) {
+			res.end();
+		} else if (this.isFile && this.data) {
+			res.send(this.data);
 		} else {
-			res.status(this.status).json(this.data);
+			const data = this.serialization
+				? serializeResponse(this.data, this.serialization, res.req?.user)
+				: this.data;
+			res.json(data);
+		}
+	}
+
+	private async sendFile(
+		res: Response,
+		source: FileSource,
+		options: IFileOptions,
+		next?: NextFunction
+	): Promise<void> {
+		// Gövde başlamadan oluşan hatalar error handler'a, sonrakiler bağlantıyı kapatır
+		const fail = (error: unknown) => {
+			if (!res.headersSent && next) {
+				FILE_HEADERS.forEach((header) => res.removeHeader(header));
+				next(error);
+			} else res.destroy(error instanceof Error ? error : undefined);
+		};
+
+		try {
+			let size = options.contentLength;
+			let filename = options.filename;
+			if (typeof source === 'string') {
+				const stat = await fs.stat(source).catch(() => undefined);
+				if (!stat?.isFile())
+					throw new NotFoundException({ message: 'File not found' });
+				size = stat.size;
+				filename ??= basename(source);
+			} else if (Buffer.isBuffer(source)) {
+				size = source.length;
+			}
+
+			if (!res.getHeader('Content-Type')) {
+				if (options.contentType) res.type(options.contentType);
+				else if (filename && extname(filename)) res.type(extname(filename));
+				else res.type('application/octet-stream');
+			}
+			const disposition = options.disposition ?? (filename ? 'attachment' : undefined);
+			if (disposition)
+				res.setHeader('Content-Disposition', contentDisposition(disposition, filename));
+
+			let start = 0;
+			let end = size !== undefined ? size - 1 : undefined;
+			// Range sadece baştan okunmak zorunda olmayan kaynaklarda desteklenir
+			const seekable = typeof source === 'string' || Buffer.isBuffer(source);
+			if (seekable && size !== undefined && size > 0) {
+				res.setHeader('Accept-Ranges', 'bytes');
+				const ranges = res.req.headers.range ? res.req.range(size) : undefined;
+				if (ranges === -1) {
+					res.status(416).setHeader('Content-Range', `bytes */${size}`);
+					res.end();
+					return;
+				}
+				if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+					start = ranges[0]!.start;
+					end = ranges[0]!.end;
+					res.status(206).setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+				}
+			}
+			if (size !== undefined) res.setHeader('Content-Length', end! - start + 1);
+
+			if (res.req.method === 'HEAD' || size === 0) {
+				// Pipe edilmeyecek stream'in kaynağı (fd, upstream bağlantı) serbest bırakılır
+				if (source instanceof Readable) source.destroy();
+				res.end();
+				return;
+			}
+			if (Buffer.isBuffer(source)) {
+				res.end(source.subarray(start, end! + 1));
+				return;
+			}
+
+			const stream =
+				typeof source === 'string'
+					? createReadStream(source, { start, end: end! })
+					: source;
+			stream.on('error', fail);
+			res.on('close', () => stream.destroy());
+			stream.pipe(res);
+		} catch (error) {
+			fail(error);
 		}
 	}
 }
@@ -1,4 +1,10 @@
 export const MINI_TYPES = {
 	IController: Symbol.for('IController'),
+	IGateway: Symbol.for('IGateway'),
 	IApp: Symbol.for('IApp'),
+	IAuthStrategy: Symbol.for('IAuthStrategy'),
+	IPermissionProvider: Symbol.for('IPermissionProvider'),
+	HttpRequest: Symbol.for('HttpRequest'),
+	HttpResponse: Symbol.for('HttpResponse'),
+	RequestContainer: Symbol.for('RequestContainer'),
 };
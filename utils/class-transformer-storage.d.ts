@@ -0,0 +1,4 @@
+// class-transformer bu modül için tip yayınlamıyor; types/ altındaki tanımı cjs yoluna bağlar
+declare module 'class-transformer/cjs/storage' {
+	export { defaultMetadataStorage } from 'class-transformer/types/storage';
+}
@@ -0,0 +1,26 @@
+export type DispositionType = 'inline' | 'attachment';
+
+/** RFC 5987 ext-value kodlaması (filename*=UTF-8''...) */
+const encodeRfc5987 = (value: string) =>
+	encodeURIComponent(value).replace(
+		/['()*]/g,
+		(char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+	);
+
+/**
+ * Content-Disposition header değeri üretir. ASCII olmayan dosya adları için
+ * eski istemcilere ASCII fallback, yenilerine filename* gönderilir.
+ */
+export function contentDisposition(
+	type: DispositionType,
+	filename?: string
+): string {
+	if (!filename) return type;
+	const fallback = filename
+		.replace(/[^\x20-\x7e]/g, '_')
+		.replace(/["\\]/g, '\\$&');
+	const header = `${type}; filename="${fallback}"`;
+	return /[^\x20-\x7e]/.test(filename)
+		? `${header}; filename*=UTF-8''${encodeRfc5987(filename)}`
+		: header;
+}
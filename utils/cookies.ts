@@ -0,0 +1,18 @@
+/** Cookie header'ını ad → değer nesnesine çevirir (ilk değer geçerlidir) */
+export function parseCookies(header: string | undefined): Record<string, string> {
+	const cookies: Record<string, string> = {};
+	for (const part of (header ?? '').split(';')) {
+		const separator = part.indexOf('=');
+		if (separator === -1) continue;
+		const name = part.slice(0, separator).trim();
+		if (!name || Object.prototype.hasOwnProperty.call(cookies, name)) continue;
+		let value = part.slice(separator + 1).trim();
+		if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+		try {
+			cookies[name] = decodeURIComponent(value);
+		} catch {
+			cookies[name] = value;
+		}
+	}
+	return cookies;
+}
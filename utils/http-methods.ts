@@ -0,0 +1,19 @@
+import type { Method } from '../notations/controller/rest.types';
+
+/** @all route'larının dokümante edildiği standart method'lar */
+export const ALL_DOCUMENTED_METHODS: Method[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+/** 'all' OpenAPI/Postman'da geçerli değil; her standart method'a açılır */
+export function documentedMethods(method: Method): Method[] {
+	return method === 'all' ? ALL_DOCUMENTED_METHODS : [method];
+}
+
+/** Allow header'ı için sıralı liste; GET otomatik HEAD'i içerir (Express'in OPTIONS yanıtıyla aynı) */
+export function allowedMethods(methods: Iterable<Method>): string[] {
+	const allowed = new Set<string>();
+	for (const method of methods) {
+		allowed.add(method.toUpperCase());
+		if (method === 'get') allowed.add('HEAD');
+	}
+	return Array.from(allowed);
+}
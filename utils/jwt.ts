@@ -0,0 +1,110 @@
+import crypto, { KeyObject } from 'node:crypto';
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+export type JwtKey = string | Buffer | KeyObject;
+
+export interface IJwtPayload {
+	sub?: string;
+	iss?: string;
+	aud?: string | string[];
+	exp?: number;
+	nbf?: number;
+	iat?: number;
+	[key: string]: unknown;
+}
+
+export interface IJwtVerifyOptions {
+	algorithms: JwtAlgorithm[];
+	secret?: JwtKey;
+	publicKey?: JwtKey;
+	issuer?: string;
+	audience?: string | string[];
+	/** Saniye cinsinden exp/nbf toleransı */
+	clockTolerance?: number;
+}
+
+export interface IJwtSignOptions {
+	algorithm: JwtAlgorithm;
+	/** HS256 için secret, RS256 için private key */
+	key: JwtKey;
+	expiresIn?: number;
+}
+
+const base64UrlEncode = (value: Buffer | string) =>
+	Buffer.from(value).toString('base64url');
+
+const base64UrlDecodeJson = (value: string) =>
+	JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+export function signJwt(payload: IJwtPayload, options: IJwtSignOptions): string {
+	const now = Math.floor(Date.now() / 1000);
+	const body: IJwtPayload = { iat: now, ...payload };
+	if (options.expiresIn !== undefined) body.exp = now + options.expiresIn;
+
+	const header = base64UrlEncode(
+		JSON.stringify({ alg: options.algorithm, typ: 'JWT' })
+	);
+	const data = `${header}.${base64UrlEncode(JSON.stringify(body))}`;
+	const signature =
+		options.algorithm === 'HS256'
+			? crypto.createHmac('sha256', options.key).update(data).digest()
+			: crypto.sign('RSA-SHA256', Buffer.from(data), options.key);
+	return `${data}.${base64UrlEncode(signature)}`;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Token'ı doğrular ve payload'ı döner; geçersizse Error fırlatır */
+export function verifyJwt(token: string, options: IJwtVerifyOptions): IJwtPayload {
+	const parts = token.split('.');
+	if (parts.length !== 3) throw new Error('Malformed token');
+	const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+	let header: { alg?: string };
+	let payload: IJwtPayload;
+	try {
+		header = base64UrlDecodeJson(encodedHeader);
+		payload = base64UrlDecodeJson(encodedPayload);
+	} catch {
+		throw new Error('Malformed token');
+	}
+	// "null", "1" gibi geçerli JSON ama nesne olmayan segmentler
+	if (!isPlainObject(header) || !isPlainObject(payload)) throw new Error('Malformed token');
+
+	const algorithm = header.alg as JwtAlgorithm;
+	if (!options.algorithms.includes(algorithm))
+		throw new Error(`Unsupported algorithm: ${header.alg}`);
+
+	const data = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+	const signature = Buffer.from(encodedSignature, 'base64url');
+	let valid = false;
+	if (algorithm === 'HS256') {
+		if (!options.secret) throw new Error('HS256 secret is not configured');
+		const expected = crypto.createHmac('sha256', options.secret).update(data).digest();
+		valid =
+			expected.length === signature.length &&
+			crypto.timingSafeEqual(expected, signature);
+	} else {
+		if (!options.publicKey) throw new Error('RS256 public key is not configured');
+		valid = crypto.verify('RSA-SHA256', data, options.publicKey, signature);
+	}
+	if (!valid) throw new Error('Invalid signature');
+
+	const now = Math.floor(Date.now() / 1000);
+	const tolerance = options.clockTolerance ?? 0;
+	if (payload.exp !== undefined && now - tolerance >= payload.exp)
+		throw new Error('Token expired');
+	if (payload.nbf !== undefined && now + tolerance < payload.nbf)
+		throw new Error('Token not active yet');
+	if (options.issuer !== undefined && payload.iss !== options.issuer)
+		throw new Error('Invalid issuer');
+	if (options.audience !== undefined) {
+		const expected = ([] as string[]).concat(options.audience);
+		const actual = ([] as string[]).concat(payload.aud ?? []);
+		if (!actual.some((aud) => expected.includes(aud)))
+			throw new Error('Invalid audience');
+	}
+
+	return payload;
+}
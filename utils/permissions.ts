@@ -0,0 +1,23 @@
+/**
+ * Verilen izin, sahip olunan izinlerden biriyle eşleşiyor mu?
+ * `*` her şeyi, `orders:*` ise `orders:` ile başlayan tüm izinleri kapsar.
+ */
+export function matchesPermission(granted: string, required: string): boolean {
+	if (granted === required || granted === '*') return true;
+	const grantedParts = granted.split(':');
+	const requiredParts = required.split(':');
+	for (let i = 0; i < grantedParts.length; i++) {
+		const part = grantedParts[i];
+		if (part === '*' && i === grantedParts.length - 1)
+			return requiredParts.length > i;
+		if (part !== '*' && part !== requiredParts[i]) return false;
+	}
+	return grantedParts.length === requiredParts.length;
+}
+
+export function hasPermission(granted: Iterable<string>, required: string) {
+	for (const permission of granted) {
+		if (matchesPermission(permission, required)) return true;
+	}
+	return false;
+}
@@ -0,0 +1,136 @@
+import { plainToInstance } from 'class-transformer';
+import type { ClassConstructor } from 'class-transformer';
+import { validate } from 'class-validator';
+import type { IValidationError } from '../expections/http.expection';
+import type { IRequestResponseExample } from '../notations/controller/rest.types';
+import { flattenValidationErrors } from '../notations/controller/middlewares/validation.middleware';
+import { inferSchema } from './infer-schema';
+
+/** off: kapalı, log: uyumsuzluk loglanır, error: 500 döner */
+export type ResponseValidationMode = 'off' | 'log' | 'error';
+
+/** inferSchema çıktısı ile (type/properties/required/items) değeri karşılaştırır */
+export function validateAgainstSchema(
+	value: unknown,
+	schema: any,
+	path = ''
+): IValidationError[] {
+	const field = path || '$';
+	if (!schema || schema.type === undefined) return [];
+
+	const actual =
+		value === null
+			? 'null'
+			: Array.isArray(value)
+			? 'array'
+			: Number.isInteger(value)
+			? 'integer'
+			: typeof value;
+	const matches =
+		actual === schema.type || (schema.type === 'number' && actual === 'integer');
+	if (!matches)
+		return [{ field, errors: [`expected ${schema.type} but got ${actual}`] }];
+
+	const errors: IValidationError[] = [];
+	if (schema.type === 'array' && schema.items) {
+		(value as unknown[]).forEach((item, index) =>
+			errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`))
+		);
+	}
+	if (schema.type === 'object') {
+		const record = value as Record<string, unknown>;
+		for (const key of schema.required ?? []) {
+			if (record[key] === undefined || record[key] === null)
+				errors.push({
+					field: path ? `${path}.${key}` : key,
+					errors: [`${key} is required`],
+				});
+		}
+		for (const [key, propertySchema] of Object.entries<any>(
+			schema.properties ?? {}
+		)) {
+			if (record[key] === undefined || record[key] === null) continue;
+			errors.push(
+				...validateAgainstSchema(
+					record[key],
+					propertySchema,
+					path ? `${path}.${key}` : key
+				)
+			);
+		}
+	}
+	return errors;
+}
+
+export async function validateAgainstDto(
+	value: unknown,
+	type: ClassConstructor<any>
+): Promise<IValidationError[]> {
+	const items = Array.isArray(value) ? value : [value];
+	const errors: IValidationError[] = [];
+	for (const [index, item] of items.entries()) {
+		if (item === null || typeof item !== 'object') {
+			errors.push({
+				field: Array.isArray(value) ? `[${index}]` : '$',
+				errors: [`expected ${type.name} object`],
+			});
+			continue;
+		}
+		const instance = plainToInstance(type, item);
+		const result = await validate(instance as object, {
+			validationError: { target: false, value: false },
+		});
+		errors.push(
+			...flattenValidationErrors(
+				result,
+				undefined,
+				Array.isArray(value) ? `[${index}]` : ''
+			)
+		);
+	}
+	return errors;
+}
+
+/** Örneklerdeki ilgili status için çıkarılan şemalar */
+export function exampleSchemasFor(
+	examples: IRequestResponseExample[],
+	status: number
+): any[] {
+	const schemas: any[] = [];
+	for (const example of examples) {
+		const response = (example.response as Record<string, any>)[status];
+		if (response === undefined) continue;
+		const hasLegacyShape =
+			response &&
+			typeof response === 'object' &&
+			'description' in response &&
+			'data' in response;
+		schemas.push(inferSchema(hasLegacyShape ? response.data : response));
+	}
+	return schemas;
+}
+
+/**
+ * 2xx yanıtlar DTO tanımlıysa ona, değilse örneklerden çıkarılan şemalardan
+ * birine uymalı; diğer status'lar yalnızca örneklerde tanımlıysa kontrol edilir.
+ * Gövdesiz yanıtlar (204/205/304, redirect'ler) ve sözleşmesiz status'lar boş döner.
+ */
+export async function validateResponse(
+	value: unknown,
+	status: number,
+	contract: { type?: ClassConstructor<any>; examples?: IRequestResponseExample[] }
+): Promise<IValidationError[]> {
+	if (status === 204 || status === 205 || (status >= 300 && status < 400)) return [];
+	if (contract.type && status >= 200 && status < 300)
+		return validateAgainstDto(value, contract.type);
+
+	const schemas = exampleSchemasFor(contract.examples ?? [], status);
+	if (!schemas.length) return [];
+	let best: IValidationError[] | undefined;
+	for (const schema of schemas) {
+		const errors = validateAgainstSchema(value, schema);
+		if (!errors.length) return [];
+		if (!best || errors.length < best.length) best = errors;
+	}
+	return best ?? [];
+}
@@ -0,0 +1,60 @@
+/// <reference path="./class-transformer-storage.d.ts" />
+import {
+	ClassConstructor,
+	ClassTransformOptions,
+	instanceToPlain,
+	plainToInstance,
+} from 'class-transformer';
+// @Expose/@Exclude metadata'sı public API'de yok; Swagger şeması için kütüphanenin
+// kendi decorator'larının yazdığı storage okunur (paket cjs build'inin iç yolu)
+import { defaultMetadataStorage } from 'class-transformer/cjs/storage';
+import type { IAuthUser } from '../interfaces/auth.interface';
+
+export interface ISerializeOptions {
+	groups?: string[];
+	/** Kullanıcının rollerini de grup olarak ekler (ör. admin → @Expose({ groups: ['admin'] })) */
+	rolesAsGroups?: boolean;
+	/** Sadece @Expose ile işaretli alanlar çıktıya girer */
+	excludeExtraneousValues?: boolean;
+}
+
+export interface ISerializeConfig<T = any> extends ISerializeOptions {
+	type: ClassConstructor<T>;
+}
+
+/** Çıktı DTO'su ile instanceToPlain çalıştırır; @Exclude/@Expose dikkate alınır */
+export function serializeResponse(
+	data: unknown,
+	config: ISerializeConfig,
+	user?: IAuthUser
+): unknown {
+	if (data === null || data === undefined) return data;
+	const groups = [
+		...(config.groups ?? []),
+		...(config.rolesAsGroups ? user?.roles ?? [] : []),
+	];
+	const options: ClassTransformOptions = {
+		...(groups.length && { groups }),
+		...(config.excludeExtraneousValues !== undefined && {
+			excludeExtraneousValues: config.excludeExtraneousValues,
+		}),
+	};
+	const toInstance = (item: unknown) =>
+		item instanceof config.type ? item : plainToInstance(config.type, item, options);
+	const instance = Array.isArray(data) ? data.map(toInstance) : toInstance(data);
+	return instanceToPlain(instance, options);
+}
+
+/** Swagger şeması için class-transformer metadata'sı */
+export function getSerializationMetadata(type: Function) {
+	return {
+		exposed: defaultMetadataStorage
+			.getExposedMetadatas(type)
+			.filter((meta) => meta.propertyName !== undefined && !meta.options.toClassOnly)
+			.map((meta) => meta.options.name ?? meta.propertyName!),
+		excluded: defaultMetadataStorage
+			.getExcludedMetadatas(type)
+			.filter((meta) => meta.propertyName !== undefined && !meta.options.toClassOnly)
+			.map((meta) => meta.propertyName!),
+	};
+}
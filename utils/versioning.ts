@@ -0,0 +1,65 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { IVersioningOptions } from '../interfaces/versioning.interface';
+
+export const DEFAULT_VERSION_HEADER = 'Accept-Version';
+
+/**
+ * Route'un hizmet verdiği version'lar: @version, yoksa defaultVersion.
+ * undefined dönerse route version'dan bağımsızdır (her istekte eşleşir).
+ */
+export function routeVersions(
+	versions: string[] | undefined,
+	versioning: IVersioningOptions | undefined
+): string[] | undefined {
+	if (!versioning) return undefined;
+	if (versions?.length) return versions;
+	return versioning.defaultVersion !== undefined ? [versioning.defaultVersion] : undefined;
+}
+
+/** uri stratejisinde path'in başına /v{version} eklenir */
+export function versionedPath(
+	path: string,
+	version: string | undefined,
+	versioning: IVersioningOptions | undefined
+): string {
+	if (version === undefined || versioning?.type !== 'uri') return path;
+	return `/${versioning.prefix ?? 'v'}${version}${path === '/' ? '' : path}`;
+}
+
+/** header/media-type stratejisinde isteğin version'ı; belirtilmemişse defaultVersion */
+export function requestVersion(
+	headers: IncomingHttpHeaders,
+	versioning: IVersioningOptions
+): string | undefined {
+	let version: string | undefined;
+	if (versioning.type === 'header') {
+		const value = headers[(versioning.header ?? DEFAULT_VERSION_HEADER).toLowerCase()];
+		version = (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+	} else if (versioning.type === 'media-type') {
+		const key = (versioning.key ?? 'v').toLowerCase();
+		// Accept: application/json;v=2, text/plain → ilk eşleşen parametre
+		for (const mediaRange of (headers.accept ?? '').split(',')) {
+			for (const parameter of mediaRange.split(';').slice(1)) {
+				const [name, value] = parameter.split('=').map((part) => part.trim());
+				if (name?.toLowerCase() === key && value) {
+					version = value.replace(/^"|"$/g, '');
+					break;
+				}
+			}
+			if (version !== undefined) break;
+		}
+	}
+	return version ?? versioning.defaultVersion;
+}
+
+/** Dokümantasyon ve Postman istekleri için version'ı taşıyan header'lar */
+export function versionHeaders(
+	version: string,
+	versioning: IVersioningOptions | undefined
+): Record<string, string> {
+	if (versioning?.type === 'header')
+		return { [versioning.header ?? DEFAULT_VERSION_HEADER]: version };
+	if (versioning?.type === 'media-type')
+		return { Accept: `application/json;${versioning.key ?? 'v'}=${version}` };
+	return {};
+}